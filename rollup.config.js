@@ -21,6 +21,6 @@ export default {
       declarationDir: './dist'
     })
   ],
-  external: ['vue', 'fs', 'path']
+  external: ['vue', 'fs', 'path', 'crypto']
 };
 
@@ -3,14 +3,18 @@
  * 支持任意 JavaScript 环境或框架
  */
 
+import { Decimal, type RoundingMode } from './decimal';
+
 /**
  * AmountOpt 接口
  */
 export interface AmountOpt {
   /** 保留几位小数，默认 `0` */
   digit?: number;
-  /** 小数位是否四舍五入，默认 `false` 不进行四舍五入 */
+  /** 小数位是否四舍五入，默认 `false` 不进行四舍五入（直接截断） */
   round?: boolean;
+  /** 小数位舍入方式，设置后忽略 `round` */
+  rounding?: RoundingMode;
 }
 
 /**
@@ -18,6 +22,7 @@ export interface AmountOpt {
  * 
  * @param val - 分
  * @param format - 转元后像 10、20、100、1000 这种整金额默认会在末尾加 .00，如果不想要设置成 false 即可
+ * @param rounding - 分包含小数时保留两位小数的舍入方式，默认 `half-up` 四舍五入
  * @returns 返回元单位的数值
  * 
  * @example
@@ -25,22 +30,18 @@ export interface AmountOpt {
  * centsToDollars(100); // 1.00
  * centsToDollars(100, false); // 1
  * centsToDollars(1234); // 12.34
+ * centsToDollars(1234.5, true, 'half-even'); // 12.34
  * ```
  */
-export function centsToDollars(val: number, format: boolean = true): number {
-  const dollars = val / 100;
+export function centsToDollars(val: number, format: boolean = true, rounding: RoundingMode = 'half-up'): number {
+  const dollars = new Decimal(val).div(100, 2, rounding);
   
   // 如果是整数且 format 为 true，返回带两位小数的数字
-  if (format && Math.floor(dollars) === dollars) {
+  if (format && dollars.decimalPlaces() === 0) {
     return parseFloat(dollars.toFixed(2));
   }
   
-  // 如果不是整数，保留两位小数
-  if (!format && Math.floor(dollars) === dollars) {
-    return Math.round(dollars);
-  }
-  
-  return parseFloat(dollars.toFixed(2));
+  return dollars.toNumber();
 }
 
 /**
@@ -48,6 +49,7 @@ export function centsToDollars(val: number, format: boolean = true): number {
  * 
  * @param val - 元
  * @param digit - 转换倍数，默认 100
+ * @param rounding - 转换后不是整数时的舍入方式，默认 `half-up` 四舍五入
  * @returns 返回分单位的数值
  * 
  * @example
@@ -55,10 +57,12 @@ export function centsToDollars(val: number, format: boolean = true): number {
  * dollarsToCents(1); // 100
  * dollarsToCents(12.34); // 1234
  * dollarsToCents(1, 1000); // 1000
+ * dollarsToCents(1.115); // 112
+ * dollarsToCents(1.115, 100, 'floor'); // 111
  * ```
  */
-export function dollarsToCents(val: number, digit: number = 100): number {
-  return Math.round(val * digit);
+export function dollarsToCents(val: number, digit: number = 100, rounding: RoundingMode = 'half-up'): number {
+  return new Decimal(val).mul(digit).round(0, rounding).toNumber();
 }
 
 /**
@@ -131,7 +135,8 @@ export function addZero(val: number | string): string {
  * @param amount - 金额
  * @param options - 配置选项
  * @param options.digit - 保留几位小数，默认 `0`
- * @param options.round - 小数位是否四舍五入，默认 `false` 不进行四舍五入
+ * @param options.round - 小数位是否四舍五入，默认 `false` 不进行四舍五入（直接截断）
+ * @param options.rounding - 小数位舍入方式，设置后忽略 `round`
  * @returns 返回格式化后的金额
  * 
  * @example
@@ -141,21 +146,24 @@ export function addZero(val: number | string): string {
  * priceToThousands(123456789.567, { digit: 2 }); // "123,456,789.56"
  * priceToThousands(123456789.567, { digit: 2, round: true }); // "123,456,789.57"
  * priceToThousands(123456789.567, { digit: 5 }); // "123,456,789.56700"
+ * priceToThousands(1.005, { digit: 2, round: true }); // "1.01"
+ * priceToThousands(2.345, { digit: 2, rounding: 'half-even' }); // "2.34"
  * ```
  */
 export function priceToThousands(amount: number, options?: AmountOpt): string {
-  const { digit = 0, round = false } = options || {};
+  const { digit = 0, round = false, rounding } = options || {};
   
-  let value = amount;
-  
-  // 如果需要四舍五入
-  if (round && digit > 0) {
-    const multiplier = Math.pow(10, digit);
-    value = Math.round(amount * multiplier) / multiplier;
+  if (!isFinite(amount)) {
+    return String(amount);
   }
   
+  const value = new Decimal(amount);
+  
+  // 未指定舍入方式时，四舍五入或直接截断
+  const mode = rounding || (round ? 'half-up' : 'trunc');
+  
   // 格式化小数位
-  const fixed = digit >= 0 ? value.toFixed(digit) : value.toString();
+  const fixed = digit >= 0 ? value.toFixed(digit, mode) : value.toString();
   const parts = fixed.split('.');
   
   // 添加千分位逗号
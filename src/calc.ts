@@ -0,0 +1,87 @@
+/**
+ * 链式精确计算相关工具函数
+ * 支持任意 JavaScript 环境或框架（需要支持 BigInt）
+ */
+
+import { Decimal, DEFAULT_DECIMAL_CONFIG, type DecimalValue, type RoundingMode } from './decimal';
+
+/**
+ * 链式计算的操作数，可以是另一个链式计算的结果
+ */
+export type CalculatorValue = DecimalValue | Calculator;
+
+/**
+ * 链式计算器，每一步都返回新的计算器，中间结果不会舍入
+ */
+export interface Calculator {
+  /** 加 */
+  plus: (value: CalculatorValue) => Calculator;
+  /** 减 */
+  minus: (value: CalculatorValue) => Calculator;
+  /** 乘 */
+  times: (value: CalculatorValue) => Calculator;
+  /** 除，除数为 0 时抛出错误，中间结果保留 20 位小数 */
+  div: (value: CalculatorValue) => Calculator;
+  /** 取绝对值 */
+  abs: () => Calculator;
+  /** 取反 */
+  neg: () => Calculator;
+  /** 按舍入方式保留指定的小数位数，默认 `half-up` 四舍五入 */
+  round: (places?: number, rounding?: RoundingMode) => Calculator;
+  /** 转换为数值 */
+  toNumber: () => number;
+  /** 转换为字符串，不使用科学计数法 */
+  toString: () => string;
+  /** 按舍入方式保留指定的小数位数并转换为字符串，位数不足时补 0，默认 `half-up` 四舍五入 */
+  toFixed: (places: number, rounding?: RoundingMode) => string;
+  /** 转换为 `Decimal` */
+  toDecimal: () => Decimal;
+}
+
+function toDecimal(value: CalculatorValue): Decimal {
+  if (value instanceof Decimal) {
+    return value;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return value.toDecimal();
+  }
+  return new Decimal(value);
+}
+
+/**
+ * 创建链式计算器，用于替代 `addition`、`multiplication` 等函数的嵌套调用，只在最后一步舍入
+ * 
+ * 使用固定的默认配置（除法保留 20 位小数、`half-up` 四舍五入），不受 `Decimal.config()` 影响
+ * 
+ * @param value - 初始值
+ * @returns 返回链式计算器
+ * 
+ * @example
+ * ```typescript
+ * // (0.1 + 0.2) * 3 / 7
+ * calc(0.1).plus(0.2).times(3).div(7).round(2).toNumber(); // 0.13
+ * 
+ * // 单价 * 数量 - 优惠，保留两位小数
+ * calc('19.99').times(3).minus(calc(5).div(3)).toFixed(2); // '58.30'
+ * 
+ * calc(10).div(3).round(2, 'ceil').toString(); // '3.34'
+ * ```
+ */
+export function calc(value: CalculatorValue): Calculator {
+  const current = toDecimal(value);
+  const { precision, rounding } = DEFAULT_DECIMAL_CONFIG;
+
+  return {
+    plus: other => calc(current.add(toDecimal(other))),
+    minus: other => calc(current.sub(toDecimal(other))),
+    times: other => calc(current.mul(toDecimal(other))),
+    div: other => calc(current.div(toDecimal(other), precision, rounding)),
+    abs: () => calc(current.abs()),
+    neg: () => calc(current.neg()),
+    round: (places, mode = rounding) => calc(current.round(places, mode)),
+    toNumber: () => current.toNumber(),
+    toString: () => current.toString(),
+    toFixed: (places, mode = rounding) => current.toFixed(places, mode),
+    toDecimal: () => current
+  };
+}
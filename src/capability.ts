@@ -0,0 +1,319 @@
+/**
+ * 运行环境能力检测相关工具函数
+ * 支持任意 JavaScript 环境，非浏览器环境中浏览器相关能力均为 false
+ */
+
+/**
+ * 图片格式
+ */
+export type ImageFormat = 'webp' | 'avif';
+
+/**
+ * Web Storage 类型
+ */
+export type WebStorageType = 'localStorage' | 'sessionStorage';
+
+/**
+ * 网络信息，来自 `navigator.connection`
+ */
+export interface NetworkInfo {
+  /** 连接类型，如 `wifi`、`cellular`，浏览器不支持时为空字符串 */
+  type: string;
+  /** 有效连接类型，如 `4g`、`3g`、`slow-2g`，浏览器不支持时为空字符串 */
+  effectiveType: string;
+  /** 估算的下行带宽（Mbps） */
+  downlink?: number;
+  /** 估算的往返时间（毫秒） */
+  rtt?: number;
+  /** 是否开启了省流量模式 */
+  saveData: boolean;
+}
+
+/**
+ * 运行环境能力报告
+ */
+export interface CapabilityReport {
+  /** 是否支持 WebP 图片 */
+  webp: boolean;
+  /** 是否支持 AVIF 图片 */
+  avif: boolean;
+  /** 是否支持触摸 */
+  touch: boolean;
+  /** 是否支持被动事件监听（`{ passive: true }`） */
+  passiveEvents: boolean;
+  /** 是否支持 IntersectionObserver */
+  intersectionObserver: boolean;
+  /** 是否支持 Web Crypto API（`crypto.subtle`） */
+  webCrypto: boolean;
+  /** 剪贴板 API 支持情况 */
+  clipboard: {
+    /** 是否支持 `navigator.clipboard.readText` */
+    read: boolean;
+    /** 是否支持 `navigator.clipboard.writeText` */
+    write: boolean;
+  };
+  /** 存储是否可用，Safari 无痕模式下 localStorage 存在但无法写入 */
+  storage: {
+    localStorage: boolean;
+    sessionStorage: boolean;
+    indexedDB: boolean;
+  };
+  /** 是否开启了深色模式 */
+  darkMode: boolean;
+  /** 是否开启了减弱动态效果 */
+  reducedMotion: boolean;
+  /** 网络信息，浏览器不支持时为 null */
+  network: NetworkInfo | null;
+}
+
+/**
+ * 1x1 像素的测试图片
+ */
+const IMAGE_SAMPLES: Record<ImageFormat, string> = {
+  webp: 'data:image/webp;base64,UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==',
+  avif: 'data:image/avif;base64,AAAAIGZ0eXBhdmlmAAAAAGF2aWZtaWYxbWlhZk1BMUIAAADybWV0YQAAAAAAAAAoaGRscgAAAAAAAAAAcGljdAAAAAAAAAAAAAAAAGxpYmF2aWYAAAAADnBpdG0AAAAAAAEAAAAeaWxvYwAAAABEAAABAAEAAAABAAABGgAAAB0AAAAoaWluZgAAAAAAAQAAABppbmZlAgAAAAABAABhdjAxQ29sb3IAAAAAamlwcnAAAABLaXBjbwAAABRpc3BlAAAAAAAAAAIAAAACAAAAEHBpeGkAAAAAAwgICAAAAAxhdjFDgQ0MAAAAABNjb2xybmNseAACAAIAAYAAAAAXaXBtYQAAAAAAAAABAAEEAQKDBAAAACVtZGF0EgAKCBgANogQEAwgMg8f8D///8WfhwB8+ErK42A='
+};
+
+/**
+ * IndexedDB 检测的超时时间，部分 Safari 版本中 `indexedDB.open` 的回调永远不会触发
+ */
+const INDEXED_DB_PROBE_TIMEOUT = 3000;
+
+/**
+ * 异步检测结果缓存，同一检测只会执行一次
+ */
+const probeCache = new Map<string, Promise<boolean>>();
+
+function cachedProbe(key: string, probe: () => Promise<boolean>): Promise<boolean> {
+  let result = probeCache.get(key);
+  if (!result) {
+    result = probe().catch(() => false);
+    probeCache.set(key, result);
+  }
+  return result;
+}
+
+/**
+ * 匹配媒体查询
+ */
+function matchMediaQuery(query: string): boolean {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia(query).matches;
+}
+
+/**
+ * 检测浏览器是否支持某种图片格式，结果会被缓存
+ * 
+ * @param format - 图片格式（`webp`、`avif`）
+ * @returns 支持时返回 true，否则返回 false
+ * 
+ * @example
+ * ```typescript
+ * const ext = (await supportsImageFormat('avif')) ? 'avif' : (await supportsImageFormat('webp')) ? 'webp' : 'jpg';
+ * ```
+ */
+export function supportsImageFormat(format: ImageFormat): Promise<boolean> {
+  return cachedProbe(`image:${format}`, () => new Promise(resolve => {
+    if (typeof Image === 'undefined') {
+      resolve(false);
+      return;
+    }
+    const image = new Image();
+    image.onload = () => resolve(image.width > 0 && image.height > 0);
+    image.onerror = () => resolve(false);
+    image.src = IMAGE_SAMPLES[format];
+  }));
+}
+
+/**
+ * 检测 Web Storage 是否可用（实际写入测试），Safari 无痕模式、禁用 Cookie 时不可用
+ * 
+ * @param type - 存储类型（`localStorage`、`sessionStorage`）
+ * @returns 可用时返回 true，否则返回 false
+ * 
+ * @example
+ * ```typescript
+ * const storage = isStorageAvailable('localStorage') ? storageLocal() : createStorage(createMemoryBackend());
+ * ```
+ */
+export function isStorageAvailable(type: WebStorageType): boolean {
+  const testKey = '__nuan_storage_test__';
+  try {
+    if (typeof window === 'undefined' || !window[type]) {
+      return false;
+    }
+    window[type].setItem(testKey, testKey);
+    window[type].removeItem(testKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 检测 IndexedDB 是否可用（实际打开数据库测试），部分浏览器的无痕模式下不可用，结果会被缓存
+ * 
+ * 打开测试数据库超过 3 秒仍无响应时视为不可用，避免 `getCapabilities()` 一直等待
+ * 
+ * @returns 可用时返回 true，否则返回 false
+ * 
+ * @example
+ * ```typescript
+ * const cache = (await isIndexedDBAvailable()) ? storageIndexed('app', 'cache') : null;
+ * ```
+ */
+export function isIndexedDBAvailable(): Promise<boolean> {
+  return cachedProbe('indexedDB', () => new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(false);
+      return;
+    }
+
+    const dbName = '__nuan_idb_test__';
+    const timer = setTimeout(() => resolve(false), INDEXED_DB_PROBE_TIMEOUT);
+    const done = (available: boolean) => {
+      clearTimeout(timer);
+      resolve(available);
+    };
+
+    const request = indexedDB.open(dbName);
+    request.onsuccess = () => {
+      // 超时后才打开成功时同样需要关闭并删除测试数据库
+      request.result.close();
+      indexedDB.deleteDatabase(dbName);
+      done(true);
+    };
+    request.onerror = () => done(false);
+    request.onblocked = () => done(false);
+  }));
+}
+
+/**
+ * 检测是否支持被动事件监听
+ * 
+ * @returns 支持时返回 true，否则返回 false
+ * 
+ * @example
+ * ```typescript
+ * window.addEventListener('touchmove', onMove, supportsPassiveEvents() ? { passive: true } : false);
+ * ```
+ */
+export function supportsPassiveEvents(): boolean {
+  if (typeof window === 'undefined' || typeof window.addEventListener !== 'function') {
+    return false;
+  }
+
+  let supported = false;
+  try {
+    // 浏览器读取 passive 属性时说明支持
+    const options = Object.defineProperty({}, 'passive', {
+      get() {
+        supported = true;
+        return false;
+      }
+    });
+    const noop = () => {};
+    window.addEventListener('test', noop, options);
+    window.removeEventListener('test', noop, options);
+  } catch {
+    supported = false;
+  }
+  return supported;
+}
+
+/**
+ * 获取网络信息，浏览器不支持 `navigator.connection` 时（如 Safari、Firefox）返回 null
+ * 
+ * @returns 返回网络信息
+ * 
+ * @example
+ * ```typescript
+ * const network = getNetworkInfo();
+ * if (network?.saveData || network?.effectiveType === '2g') {
+ *   // 加载低清图片
+ * }
+ * ```
+ */
+export function getNetworkInfo(): NetworkInfo | null {
+  const connection = typeof navigator !== 'undefined'
+    ? (navigator as Navigator & { connection?: Partial<NetworkInfo> }).connection
+    : undefined;
+  if (!connection) {
+    return null;
+  }
+
+  return {
+    type: connection.type || '',
+    effectiveType: connection.effectiveType || '',
+    downlink: connection.downlink,
+    rtt: connection.rtt,
+    saveData: !!connection.saveData
+  };
+}
+
+/**
+ * 获取运行环境能力报告，用于渐进增强
+ * 
+ * 图片格式、IndexedDB 等异步检测的结果会被缓存，深色模式、减弱动态效果、网络信息每次调用时重新读取
+ * 
+ * @param options - 配置选项
+ * @param options.refresh - 是否清除缓存重新检测，默认 `false`
+ * @returns 返回能力报告
+ * 
+ * @example
+ * ```typescript
+ * const capability = await getCapabilities();
+ * // {
+ * //   webp: true,
+ * //   avif: true,
+ * //   touch: false,
+ * //   passiveEvents: true,
+ * //   intersectionObserver: true,
+ * //   webCrypto: true,
+ * //   clipboard: { read: true, write: true },
+ * //   storage: { localStorage: true, sessionStorage: true, indexedDB: true },
+ * //   darkMode: false,
+ * //   reducedMotion: false,
+ * //   network: { type: '', effectiveType: '4g', downlink: 10, rtt: 50, saveData: false }
+ * // }
+ * 
+ * if (!capability.intersectionObserver) {
+ *   // 直接加载所有图片
+ * }
+ * ```
+ */
+export async function getCapabilities(options: { refresh?: boolean } = {}): Promise<CapabilityReport> {
+  if (options.refresh) {
+    probeCache.clear();
+  }
+
+  const [webp, avif, indexedDBAvailable] = await Promise.all([
+    supportsImageFormat('webp'),
+    supportsImageFormat('avif'),
+    isIndexedDBAvailable()
+  ]);
+
+  const hasWindow = typeof window !== 'undefined';
+  const hasNavigator = typeof navigator !== 'undefined';
+  const clipboard = hasNavigator ? navigator.clipboard : undefined;
+
+  return {
+    webp,
+    avif,
+    touch: hasWindow && ('ontouchstart' in window || (hasNavigator && navigator.maxTouchPoints > 0)),
+    passiveEvents: supportsPassiveEvents(),
+    intersectionObserver: typeof IntersectionObserver !== 'undefined',
+    webCrypto: typeof crypto !== 'undefined' && !!crypto.subtle,
+    clipboard: {
+      read: !!clipboard && typeof clipboard.readText === 'function',
+      write: !!clipboard && typeof clipboard.writeText === 'function'
+    },
+    storage: {
+      localStorage: isStorageAvailable('localStorage'),
+      sessionStorage: isStorageAvailable('sessionStorage'),
+      indexedDB: indexedDBAvailable
+    },
+    darkMode: matchMediaQuery('(prefers-color-scheme: dark)'),
+    reducedMotion: matchMediaQuery('(prefers-reduced-motion: reduce)'),
+    network: getNetworkInfo()
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * 用户代理客户端提示（User-Agent Client Hints）相关工具函数
+ * 浏览器中读取 `navigator.userAgentData`，Node.js 中解析 `Sec-CH-UA*` 请求头
+ */
+
+/**
+ * 品牌信息，如 `{ brand: 'Google Chrome', version: '120' }`
+ */
+export interface ClientHintsBrand {
+  brand: string;
+  version: string;
+}
+
+/**
+ * 客户端提示信息，高熵值需要浏览器授权或服务端通过 `Accept-CH` 响应头请求
+ */
+export interface ClientHints {
+  /** 品牌列表，版本号只有主版本号 */
+  brands: ClientHintsBrand[];
+  /** 是否是移动端 */
+  mobile: boolean;
+  /** 操作系统，如 `Windows`、`macOS`、`Android` */
+  platform: string;
+  /** 操作系统版本（高熵值） */
+  platformVersion?: string;
+  /** 设备型号（高熵值），如 `Pixel 7` */
+  model?: string;
+  /** CPU 架构（高熵值），如 `x86`、`arm` */
+  architecture?: string;
+  /** CPU 位数（高熵值），如 `64` */
+  bitness?: string;
+  /** 带完整版本号的品牌列表（高熵值） */
+  fullVersionList?: ClientHintsBrand[];
+}
+
+/**
+ * 请求头，支持 Node.js 的 `req.headers` 和 Fetch API 的 `Headers`
+ */
+export type ClientHintsHeaders =
+  | Record<string, string | string[] | undefined>
+  | { get: (name: string) => string | null };
+
+/**
+ * `navigator.userAgentData` 的类型，TypeScript 内置的 DOM 类型中暂未包含
+ */
+interface NavigatorUAData {
+  brands: ClientHintsBrand[];
+  mobile: boolean;
+  platform: string;
+  getHighEntropyValues: (hints: string[]) => Promise<Partial<ClientHints>>;
+}
+
+/**
+ * 需要请求的高熵值
+ */
+const HIGH_ENTROPY_HINTS = ['platformVersion', 'model', 'architecture', 'bitness', 'fullVersionList'];
+
+/**
+ * 读取请求头，忽略大小写
+ */
+export function readHeader(headers: ClientHintsHeaders, name: string): string | undefined {
+  if (typeof (headers as { get?: unknown }).get === 'function') {
+    return (headers as { get: (name: string) => string | null }).get(name) ?? undefined;
+  }
+
+  const records = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(records).find(item => item.toLowerCase() === name);
+  const value = key === undefined ? undefined : records[key];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * 去掉结构化字段中字符串两端的引号，如 `"Windows"`
+ */
+function unquote(value: string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed;
+}
+
+/**
+ * 解析品牌列表，如 `"Chromium";v="120", "Google Chrome";v="120"`
+ */
+function parseBrandList(value: string | undefined): ClientHintsBrand[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const brands: ClientHintsBrand[] = [];
+  const regexp = /"([^"]*)"\s*;\s*v\s*=\s*"([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = regexp.exec(value))) {
+    brands.push({ brand: match[1], version: match[2] });
+  }
+  return brands;
+}
+
+/**
+ * 写入高熵值，忽略不存在的值
+ */
+function assignHighEntropy(hints: ClientHints, values: Partial<ClientHints>): void {
+  HIGH_ENTROPY_HINTS.forEach(key => {
+    const value = values[key as keyof ClientHints];
+    if (value !== undefined) {
+      (hints as any)[key] = value;
+    }
+  });
+}
+
+/**
+ * 解析请求头中的客户端提示（`Sec-CH-UA`、`Sec-CH-UA-Mobile`、`Sec-CH-UA-Platform` 等）
+ * 
+ * 服务端需要在响应头中设置 `Accept-CH` 后，浏览器才会在后续请求中发送高熵值
+ * 
+ * @param headers - 请求头，支持 Node.js 的 `req.headers` 和 Fetch API 的 `Headers`
+ * @returns 返回客户端提示信息，请求头中没有 `Sec-CH-UA` 时返回 null
+ * 
+ * @example
+ * ```typescript
+ * // Node.js
+ * res.setHeader('Accept-CH', 'Sec-CH-UA-Platform-Version, Sec-CH-UA-Model, Sec-CH-UA-Full-Version-List');
+ * 
+ * parseClientHints(req.headers);
+ * // {
+ * //   brands: [{ brand: 'Chromium', version: '120' }, { brand: 'Google Chrome', version: '120' }, ...],
+ * //   mobile: false,
+ * //   platform: 'Windows',
+ * //   platformVersion: '15.0.0'
+ * // }
+ * ```
+ */
+export function parseClientHints(headers: ClientHintsHeaders): ClientHints | null {
+  if (!headers) {
+    return null;
+  }
+
+  const brands = parseBrandList(readHeader(headers, 'sec-ch-ua'));
+  if (!brands) {
+    return null;
+  }
+
+  const hints: ClientHints = {
+    brands,
+    mobile: readHeader(headers, 'sec-ch-ua-mobile')?.trim() === '?1',
+    platform: unquote(readHeader(headers, 'sec-ch-ua-platform')) || ''
+  };
+
+  const highEntropy: Partial<ClientHints> = {
+    platformVersion: unquote(readHeader(headers, 'sec-ch-ua-platform-version')),
+    model: unquote(readHeader(headers, 'sec-ch-ua-model')),
+    architecture: unquote(readHeader(headers, 'sec-ch-ua-arch')),
+    bitness: unquote(readHeader(headers, 'sec-ch-ua-bitness')),
+    fullVersionList: parseBrandList(readHeader(headers, 'sec-ch-ua-full-version-list'))
+  };
+  assignHighEntropy(hints, highEntropy);
+
+  return hints;
+}
+
+/**
+ * 获取浏览器的客户端提示，包括操作系统版本、设备型号、完整版本号等高熵值
+ * 
+ * @returns 返回客户端提示信息，浏览器不支持 `navigator.userAgentData`（如 Safari、Firefox）时返回 null
+ * 
+ * @example
+ * ```typescript
+ * const hints = await getClientHints();
+ * // {
+ * //   brands: [...],
+ * //   mobile: false,
+ * //   platform: 'Windows',
+ * //   platformVersion: '15.0.0',
+ * //   model: '',
+ * //   fullVersionList: [{ brand: 'Google Chrome', version: '120.0.6099.130' }, ...]
+ * // }
+ * ```
+ */
+export async function getClientHints(): Promise<ClientHints | null> {
+  const uaData: NavigatorUAData | undefined = typeof navigator !== 'undefined'
+    ? (navigator as Navigator & { userAgentData?: NavigatorUAData }).userAgentData
+    : undefined;
+  if (!uaData) {
+    return null;
+  }
+
+  const hints: ClientHints = {
+    brands: uaData.brands || [],
+    mobile: !!uaData.mobile,
+    platform: uaData.platform || ''
+  };
+
+  try {
+    assignHighEntropy(hints, await uaData.getHighEntropyValues(HIGH_ENTROPY_HINTS));
+  } catch (error) {
+    // 高熵值被权限策略拒绝时只返回低熵值
+    console.warn('getClientHints: failed to get high entropy values', error);
+  }
+
+  return hints;
+}
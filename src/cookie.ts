@@ -0,0 +1,318 @@
+/**
+ * Cookie 相关工具函数
+ * 支持任意 JavaScript 环境，浏览器中读写 `document.cookie`，Node.js 中处理 `Cookie`、`Set-Cookie` 请求头
+ */
+
+/**
+ * SameSite 类型
+ */
+export type CookieSameSite = 'Strict' | 'Lax' | 'None';
+
+/**
+ * Cookie 配置项
+ */
+export interface CookieOptions {
+  /** 过期时间（时间戳或 `Date`），不设置时为会话 Cookie */
+  expires?: number | Date;
+  /** 存活时长（秒），优先级高于 `expires` */
+  maxAge?: number;
+  /** 路径，`setCookie` 默认为 `/` */
+  path?: string;
+  /** 域名 */
+  domain?: string;
+  /** 是否只在 HTTPS 下发送 */
+  secure?: boolean;
+  /** 跨站请求时是否发送 */
+  sameSite?: CookieSameSite;
+  /** 是否禁止 JavaScript 访问（只能由服务端设置） */
+  httpOnly?: boolean;
+}
+
+/**
+ * 解析后的 `Set-Cookie`
+ */
+export interface SetCookie extends Omit<CookieOptions, 'expires'> {
+  /** Cookie 名 */
+  name: string;
+  /** Cookie 值 */
+  value: string;
+  /** 过期时间 */
+  expires?: Date;
+}
+
+function safeDecode(str: string): string {
+  try {
+    return decodeURIComponent(str);
+  } catch {
+    return str;
+  }
+}
+
+/**
+ * 解析 `Cookie` 请求头或 `document.cookie`
+ * 
+ * @param header - `Cookie` 字符串，如 `a=1; b=2`
+ * @returns 返回 Cookie 名与值组成的对象，同名 Cookie 以第一个为准
+ * 
+ * @example
+ * ```typescript
+ * parseCookie('token=abc; lang=zh-CN'); // { token: 'abc', lang: 'zh-CN' }
+ * ```
+ */
+export function parseCookie(header: string): Record<string, string> {
+  // 不继承 Object.prototype，避免 `toString`、`__proto__` 等 Cookie 名与原型属性冲突
+  const result: Record<string, string> = Object.create(null);
+  if (!header || typeof header !== 'string') {
+    return result;
+  }
+
+  header.split(';').forEach(pair => {
+    const equalIndex = pair.indexOf('=');
+    if (equalIndex === -1) {
+      return;
+    }
+
+    const name = pair.substring(0, equalIndex).trim();
+    let value = pair.substring(equalIndex + 1).trim();
+    // 去掉双引号包裹的值
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    if (name && !Object.prototype.hasOwnProperty.call(result, name)) {
+      result[name] = safeDecode(value);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 校验 Cookie 属性值，包含 `;`、换行符时可以注入其他属性（如 `Path=/; Domain=evil.com`）
+ */
+function assertAttribute(attribute: string, value: string): void {
+  if (/[;\r\n]/.test(value)) {
+    throw new Error(`Invalid cookie ${attribute}: ${value}`);
+  }
+}
+
+/**
+ * 序列化 Cookie，可用于 `document.cookie` 或 `Set-Cookie` 响应头
+ * 
+ * @param name - Cookie 名
+ * @param value - Cookie 值，会进行 URI 编码
+ * @param options - 配置选项
+ * @returns 返回序列化后的字符串，Cookie 名不合法或 `domain`、`path`、`sameSite` 包含 `;`、换行符时抛出错误
+ * 
+ * @example
+ * ```typescript
+ * serializeCookie('token', 'abc', { maxAge: 3600, path: '/', secure: true, sameSite: 'Lax' });
+ * // 'token=abc; Max-Age=3600; Path=/; Secure; SameSite=Lax'
+ * ```
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!name || /[\s;,=]/.test(name)) {
+    throw new Error(`Invalid cookie name: ${name}`);
+  }
+
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+
+  if (options.maxAge !== undefined) {
+    parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  }
+  if (options.expires !== undefined) {
+    const expires = options.expires instanceof Date ? options.expires : new Date(options.expires);
+    parts.push(`Expires=${expires.toUTCString()}`);
+  }
+  if (options.domain) {
+    assertAttribute('domain', options.domain);
+    parts.push(`Domain=${options.domain}`);
+  }
+  if (options.path) {
+    assertAttribute('path', options.path);
+    parts.push(`Path=${options.path}`);
+  }
+  if (options.secure) {
+    parts.push('Secure');
+  }
+  if (options.httpOnly) {
+    parts.push('HttpOnly');
+  }
+  if (options.sameSite) {
+    assertAttribute('sameSite', options.sameSite);
+    parts.push(`SameSite=${options.sameSite}`);
+  }
+
+  return parts.join('; ');
+}
+
+/**
+ * 解析 `Set-Cookie` 响应头
+ * 
+ * @param header - 单条 `Set-Cookie` 字符串
+ * @returns 返回解析结果，格式不正确时返回 null
+ * 
+ * @example
+ * ```typescript
+ * parseSetCookie('token=abc; Max-Age=3600; Path=/; HttpOnly; SameSite=Lax');
+ * // { name: 'token', value: 'abc', maxAge: 3600, path: '/', httpOnly: true, sameSite: 'Lax' }
+ * ```
+ */
+export function parseSetCookie(header: string): SetCookie | null {
+  if (!header || typeof header !== 'string') {
+    return null;
+  }
+
+  const [pair, ...attributes] = header.split(';');
+  const equalIndex = pair.indexOf('=');
+  if (equalIndex === -1) {
+    return null;
+  }
+
+  const name = pair.substring(0, equalIndex).trim();
+  if (!name) {
+    return null;
+  }
+
+  const result: SetCookie = { name, value: safeDecode(pair.substring(equalIndex + 1).trim()) };
+
+  attributes.forEach(attribute => {
+    const index = attribute.indexOf('=');
+    const key = (index === -1 ? attribute : attribute.substring(0, index)).trim().toLowerCase();
+    const value = index === -1 ? '' : attribute.substring(index + 1).trim();
+
+    switch (key) {
+      case 'expires': {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) {
+          result.expires = date;
+        }
+        break;
+      }
+      case 'max-age': {
+        const maxAge = parseInt(value, 10);
+        if (!isNaN(maxAge)) {
+          result.maxAge = maxAge;
+        }
+        break;
+      }
+      case 'domain':
+        result.domain = value;
+        break;
+      case 'path':
+        result.path = value;
+        break;
+      case 'secure':
+        result.secure = true;
+        break;
+      case 'httponly':
+        result.httpOnly = true;
+        break;
+      case 'samesite': {
+        const sameSite = value.toLowerCase();
+        if (sameSite === 'strict' || sameSite === 'lax' || sameSite === 'none') {
+          result.sameSite = (sameSite.charAt(0).toUpperCase() + sameSite.slice(1)) as CookieSameSite;
+        }
+        break;
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 获取当前环境的 Cookie 字符串
+ */
+function resolveCookieHeader(header?: string): string {
+  if (typeof header === 'string') {
+    return header;
+  }
+  return typeof document !== 'undefined' ? document.cookie : '';
+}
+
+/**
+ * 获取所有 Cookie
+ * 
+ * @param header - `Cookie` 请求头，不传时读取 `document.cookie`
+ * @returns 返回 Cookie 名与值组成的对象
+ * 
+ * @example
+ * ```typescript
+ * // 浏览器
+ * getAllCookies(); // { token: 'abc', lang: 'zh-CN' }
+ * 
+ * // Node.js
+ * getAllCookies(req.headers.cookie);
+ * ```
+ */
+export function getAllCookies(header?: string): Record<string, string> {
+  return parseCookie(resolveCookieHeader(header));
+}
+
+/**
+ * 获取指定 Cookie
+ * 
+ * @param name - Cookie 名
+ * @param header - `Cookie` 请求头，不传时读取 `document.cookie`
+ * @returns 返回 Cookie 值，不存在时返回 undefined
+ * 
+ * @example
+ * ```typescript
+ * // 浏览器
+ * getCookie('token'); // 'abc'
+ * 
+ * // Node.js
+ * getCookie('token', req.headers.cookie); // 'abc'
+ * ```
+ */
+export function getCookie(name: string, header?: string): string | undefined {
+  const cookies = getAllCookies(header);
+  return Object.prototype.hasOwnProperty.call(cookies, name) ? cookies[name] : undefined;
+}
+
+/**
+ * 设置 Cookie，浏览器中写入 `document.cookie`
+ * 
+ * @param name - Cookie 名
+ * @param value - Cookie 值
+ * @param options - 配置选项，`path` 默认为 `/`
+ * @returns 返回序列化后的字符串，Node.js 中可作为 `Set-Cookie` 响应头
+ * 
+ * @example
+ * ```typescript
+ * // 浏览器
+ * setCookie('token', 'abc', { maxAge: 7 * 24 * 3600, sameSite: 'Lax' });
+ * 
+ * // Node.js
+ * res.setHeader('Set-Cookie', setCookie('token', 'abc', { httpOnly: true, secure: true }));
+ * ```
+ */
+export function setCookie(name: string, value: string, options: CookieOptions = {}): string {
+  // 显式传入 path: undefined 时也使用默认路径
+  const cookie = serializeCookie(name, value, { ...options, path: options.path === undefined ? '/' : options.path });
+
+  // HttpOnly 的 Cookie 无法通过 document.cookie 写入
+  if (typeof document !== 'undefined' && !options.httpOnly) {
+    document.cookie = cookie;
+  }
+
+  return cookie;
+}
+
+/**
+ * 删除 Cookie，`path`、`domain` 需要与设置时一致
+ * 
+ * @param name - Cookie 名
+ * @param options - 配置选项，`path` 默认为 `/`
+ * @returns 返回序列化后的字符串，Node.js 中可作为 `Set-Cookie` 响应头
+ * 
+ * @example
+ * ```typescript
+ * removeCookie('token');
+ * removeCookie('token', { domain: '.example.com' });
+ * ```
+ */
+export function removeCookie(name: string, options: Omit<CookieOptions, 'expires' | 'maxAge'> = {}): string {
+  return setCookie(name, '', { ...options, expires: 0, maxAge: 0 });
+}
@@ -0,0 +1,405 @@
+/**
+ * 任意精度十进制数相关工具函数
+ * 支持任意 JavaScript 环境或框架（需要支持 BigInt）
+ */
+
+/**
+ * 可以转换为 `Decimal` 的值
+ */
+export type DecimalValue = Decimal | number | string | bigint;
+
+/**
+ * 舍入方式
+ * - `half-up`：四舍五入，中间值远离零舍入，如 `2.5 → 3`、`-2.5 → -3`
+ * - `half-down`：五舍六入，中间值向零舍入，如 `2.5 → 2`、`-2.5 → -2`
+ * - `half-even`：银行家舍入（四舍六入五成双），中间值舍入到偶数，如 `2.5 → 2`、`3.5 → 4`
+ * - `ceil`：向正无穷舍入，如 `2.1 → 3`、`-2.9 → -2`
+ * - `floor`：向负无穷舍入，如 `2.9 → 2`、`-2.1 → -3`
+ * - `trunc`：直接截断，向零舍入，如 `2.9 → 2`、`-2.9 → -2`
+ */
+export type RoundingMode = 'half-up' | 'half-down' | 'half-even' | 'ceil' | 'floor' | 'trunc';
+
+/**
+ * Decimal 全局配置
+ */
+export interface DecimalConfig {
+  /** 除法结果保留的小数位数，默认 `20` */
+  precision: number;
+  /** 默认舍入方式，默认 `half-up` */
+  rounding: RoundingMode;
+}
+
+/**
+ * 默认配置，`math`、`calc` 等工具函数固定使用此配置，不受 `Decimal.config()` 影响
+ */
+export const DEFAULT_DECIMAL_CONFIG: Readonly<DecimalConfig> = {
+  precision: 20,
+  rounding: 'half-up'
+};
+
+const config: DecimalConfig = { ...DEFAULT_DECIMAL_CONFIG };
+
+const ROUNDING_MODES: RoundingMode[] = ['half-up', 'half-down', 'half-even', 'ceil', 'floor', 'trunc'];
+
+const DECIMAL_REGEXP = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+function pow10(exponent: number): bigint {
+  return BigInt(10) ** BigInt(exponent);
+}
+
+function abs(value: bigint): bigint {
+  return value < BigInt(0) ? -value : value;
+}
+
+/**
+ * 去掉末尾多余的 0，保证相同的值只有一种表示
+ */
+function trimZeros(digits: bigint, scale: number): [bigint, number] {
+  while (scale > 0 && digits % BigInt(10) === BigInt(0)) {
+    digits /= BigInt(10);
+    scale--;
+  }
+  return [digits, scale];
+}
+
+/**
+ * 整数除法并按舍入方式处理余数
+ */
+function divideRound(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  // BigInt 除法向零截断
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === BigInt(0)) {
+    return quotient;
+  }
+
+  const positive = (numerator < BigInt(0)) === (denominator < BigInt(0));
+  const away = positive ? quotient + BigInt(1) : quotient - BigInt(1);
+  const half = abs(remainder) * BigInt(2) - abs(denominator);
+
+  switch (mode) {
+    case 'ceil':
+      return positive ? away : quotient;
+    case 'floor':
+      return positive ? quotient : away;
+    case 'trunc':
+      return quotient;
+    case 'half-down':
+      return half > BigInt(0) ? away : quotient;
+    case 'half-even':
+      if (half === BigInt(0)) {
+        return quotient % BigInt(2) === BigInt(0) ? quotient : away;
+      }
+      return half > BigInt(0) ? away : quotient;
+    default:
+      return half >= BigInt(0) ? away : quotient;
+  }
+}
+
+/**
+ * 不可变的任意精度十进制数，内部使用 BigInt 保存，加减乘运算没有精度损失
+ * 
+ * @example
+ * ```typescript
+ * new Decimal(0.1).add(0.2).toString(); // '0.3'
+ * new Decimal('9007199254740993.01').mul(100).toString(); // '900719925474099301'
+ * new Decimal(1).div(3, 4).toString(); // '0.3333'
+ * new Decimal('1.005').round(2).toNumber(); // 1.01
+ * new Decimal('2.345').round(2, 'half-even').toString(); // '2.34'
+ * new Decimal(1250).round(-2).toString(); // '1300'
+ * ```
+ */
+export class Decimal {
+  /** 去掉小数点后的整数 */
+  private readonly digits: bigint;
+  /** 小数位数 */
+  private readonly scale: number;
+
+  /**
+   * @param value - 数值、数值字符串（支持科学计数法）、BigInt 或 Decimal
+   */
+  constructor(value: DecimalValue) {
+    if (value instanceof Decimal) {
+      this.digits = value.digits;
+      this.scale = value.scale;
+      return;
+    }
+
+    if (typeof value === 'bigint') {
+      this.digits = value;
+      this.scale = 0;
+      return;
+    }
+
+    if (typeof value === 'number' && !isFinite(value)) {
+      throw new Error(`Invalid decimal value: ${value}`);
+    }
+
+    const match = DECIMAL_REGEXP.exec(String(value).trim());
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid decimal value: ${value}`);
+    }
+
+    const [, sign, integer = '', fraction = '', exponent = '0'] = match;
+    const unsigned = BigInt(`${integer}${fraction}` || '0');
+    const scale = fraction.length - Number(exponent);
+    const [digits, places] = scale < 0 ? [unsigned * pow10(-scale), 0] : trimZeros(unsigned, scale);
+
+    this.digits = sign === '-' ? -digits : digits;
+    this.scale = places;
+  }
+
+  /**
+   * 修改全局配置，只影响直接调用 `Decimal` 方法时的默认值，`calc`、`addition` 等工具函数不受影响
+   * @param options - 需要修改的配置
+   * @returns 返回修改后的配置
+   */
+  static config(options: Partial<DecimalConfig> = {}): DecimalConfig {
+    if (options.precision !== undefined) {
+      if (!Number.isInteger(options.precision) || options.precision < 0) {
+        throw new Error(`Invalid decimal precision: ${options.precision}`);
+      }
+      config.precision = options.precision;
+    }
+    if (options.rounding !== undefined) {
+      if (!ROUNDING_MODES.includes(options.rounding)) {
+        throw new Error(`Invalid rounding mode: ${options.rounding}`);
+      }
+      config.rounding = options.rounding;
+    }
+    return { ...config };
+  }
+
+  /**
+   * 根据整数和小数位数创建，内部使用
+   */
+  private static fromParts(digits: bigint, scale: number): Decimal {
+    const result = Object.create(Decimal.prototype) as { digits: bigint; scale: number };
+    [result.digits, result.scale] = trimZeros(digits, scale);
+    return result as unknown as Decimal;
+  }
+
+  /**
+   * 将两个数转换为相同小数位数的整数
+   */
+  private align(other: DecimalValue): [bigint, bigint, number] {
+    const target = other instanceof Decimal ? other : new Decimal(other);
+    const scale = Math.max(this.scale, target.scale);
+    return [
+      this.digits * pow10(scale - this.scale),
+      target.digits * pow10(scale - target.scale),
+      scale
+    ];
+  }
+
+  /**
+   * 加法
+   * @param other - 加数
+   */
+  add(other: DecimalValue): Decimal {
+    const [a, b, scale] = this.align(other);
+    return Decimal.fromParts(a + b, scale);
+  }
+
+  /**
+   * 减法
+   * @param other - 减数
+   */
+  sub(other: DecimalValue): Decimal {
+    const [a, b, scale] = this.align(other);
+    return Decimal.fromParts(a - b, scale);
+  }
+
+  /**
+   * 乘法
+   * @param other - 乘数
+   */
+  mul(other: DecimalValue): Decimal {
+    const target = other instanceof Decimal ? other : new Decimal(other);
+    return Decimal.fromParts(this.digits * target.digits, this.scale + target.scale);
+  }
+
+  /**
+   * 除法，除数为 0 时抛出错误
+   * @param other - 除数
+   * @param precision - 结果保留的小数位数，默认使用全局配置 `precision`
+   * @param rounding - 舍入方式，默认使用全局配置 `rounding`
+   */
+  div(other: DecimalValue, precision: number = config.precision, rounding: RoundingMode = config.rounding): Decimal {
+    const target = other instanceof Decimal ? other : new Decimal(other);
+    if (target.digits === BigInt(0)) {
+      throw new Error('Division by zero is not allowed');
+    }
+
+    // (a / 10^sa) / (b / 10^sb) * 10^p = a * 10^(sb + p) / (b * 10^sa)
+    const exponent = target.scale + precision - this.scale;
+    const numerator = exponent >= 0 ? this.digits * pow10(exponent) : this.digits;
+    const denominator = exponent >= 0 ? target.digits : target.digits * pow10(-exponent);
+    return Decimal.fromParts(divideRound(numerator, denominator, rounding), precision);
+  }
+
+  /**
+   * 取余，结果的符号与被除数相同（与 `%` 运算符一致），除数为 0 时抛出错误
+   * @param other - 除数
+   */
+  mod(other: DecimalValue): Decimal {
+    const [a, b, scale] = this.align(other);
+    if (b === BigInt(0)) {
+      throw new Error('Division by zero is not allowed');
+    }
+    return Decimal.fromParts(a % b, scale);
+  }
+
+  /**
+   * 整数次幂，指数为负数时结果按除法处理
+   * @param exponent - 指数，必须是整数
+   * @param precision - 指数为负数时结果保留的小数位数，默认使用全局配置 `precision`
+   */
+  pow(exponent: number, precision: number = config.precision): Decimal {
+    if (!Number.isInteger(exponent)) {
+      throw new Error(`Exponent must be an integer: ${exponent}`);
+    }
+
+    const n = Math.abs(exponent);
+    const result = Decimal.fromParts(this.digits ** BigInt(n), this.scale * n);
+    return exponent < 0 ? new Decimal(1).div(result, precision) : result;
+  }
+
+  /**
+   * 按舍入方式保留指定的小数位数
+   * @param places - 小数位数，默认 `0`，负数时舍入到整数位，如 `-1` 舍入到十位
+   * @param rounding - 舍入方式，默认使用全局配置 `rounding`
+   */
+  round(places: number = 0, rounding: RoundingMode = config.rounding): Decimal {
+    if (places >= this.scale) {
+      return this;
+    }
+    const digits = divideRound(this.digits, pow10(this.scale - places), rounding);
+    // 小数位数为负数时需要补回被舍去的整数位，如 1234 保留 -1 位为 1230
+    return places < 0 ? Decimal.fromParts(digits * pow10(-places), 0) : Decimal.fromParts(digits, places);
+  }
+
+  /**
+   * 取反
+   */
+  neg(): Decimal {
+    return Decimal.fromParts(-this.digits, this.scale);
+  }
+
+  /**
+   * 取绝对值
+   */
+  abs(): Decimal {
+    return this.digits < BigInt(0) ? this.neg() : this;
+  }
+
+  /**
+   * 比较大小
+   * @param other - 比较的数
+   * @returns 小于时返回 -1，等于时返回 0，大于时返回 1
+   */
+  cmp(other: DecimalValue): -1 | 0 | 1 {
+    const [a, b] = this.align(other);
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  /**
+   * 是否等于
+   */
+  eq(other: DecimalValue): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  /**
+   * 是否大于
+   */
+  gt(other: DecimalValue): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  /**
+   * 是否大于等于
+   */
+  gte(other: DecimalValue): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  /**
+   * 是否小于
+   */
+  lt(other: DecimalValue): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  /**
+   * 是否小于等于
+   */
+  lte(other: DecimalValue): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  /**
+   * 是否为 0
+   */
+  isZero(): boolean {
+    return this.digits === BigInt(0);
+  }
+
+  /**
+   * 是否为负数
+   */
+  isNegative(): boolean {
+    return this.digits < BigInt(0);
+  }
+
+  /**
+   * 小数位数
+   */
+  decimalPlaces(): number {
+    return this.scale;
+  }
+
+  /**
+   * 转换为字符串，不使用科学计数法
+   */
+  toString(): string {
+    const negative = this.digits < BigInt(0);
+    let str = abs(this.digits).toString();
+
+    if (this.scale > 0) {
+      str = str.padStart(this.scale + 1, '0');
+      str = `${str.slice(0, -this.scale)}.${str.slice(-this.scale)}`;
+    }
+
+    return negative ? `-${str}` : str;
+  }
+
+  /**
+   * 按舍入方式保留指定的小数位数并转换为字符串，位数不足时补 0
+   * @param places - 小数位数，负数时舍入到整数位
+   * @param rounding - 舍入方式，默认使用全局配置 `rounding`
+   */
+  toFixed(places: number, rounding: RoundingMode = config.rounding): string {
+    const str = this.round(places, rounding).toString();
+    if (places <= 0) {
+      return str;
+    }
+    const [integer, fraction = ''] = str.split('.');
+    return `${integer}.${fraction.padEnd(places, '0')}`;
+  }
+
+  /**
+   * 转换为数值，超出安全范围时会损失精度
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  valueOf(): string {
+    return this.toString();
+  }
+}
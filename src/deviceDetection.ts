@@ -1,3 +1,22 @@
+import {
+  getClientHints,
+  parseClientHints,
+  readHeader,
+  type ClientHints,
+  type ClientHintsBrand,
+  type ClientHintsHeaders
+} from './clientHints';
+import {
+  matchDeviceVendor,
+  parseUserAgent,
+  type BotDetectionResult,
+  type UserAgentBrowser,
+  type UserAgentContainer,
+  type UserAgentDevice,
+  type UserAgentEngine,
+  type UserAgentOS
+} from './userAgent';
+
 /**
  * 设备类型枚举
  */
@@ -16,10 +35,22 @@ export interface DeviceDetectionResult {
   isMobile: boolean;
   isTablet: boolean;
   userAgent: string;
+  /** 浏览器名称和版本 */
+  browser: UserAgentBrowser;
+  /** 操作系统名称和版本 */
+  os: UserAgentOS;
+  /** 渲染引擎名称和版本 */
+  engine: UserAgentEngine;
+  /** 设备厂商和型号 */
+  device: UserAgentDevice;
+  /** 宿主 App（微信、支付宝等）和是否在小程序 web-view 中 */
+  container: UserAgentContainer;
+  /** 是否是爬虫及爬虫名称、分类 */
+  bot: BotDetectionResult;
 }
 
 /**
- * 检测设备类型（PC、移动端或平板）
+ * 检测设备类型（PC、移动端或平板），同时解析浏览器、操作系统、渲染引擎和设备厂商型号
  * 
  * @param userAgent - 可选的用户代理字符串，如果不提供则使用 navigator.userAgent
  * @returns 设备检测结果对象
@@ -29,6 +60,8 @@ export interface DeviceDetectionResult {
  * const result = deviceDetection();
  * console.log(result.type); // 'pc' | 'mobile' | 'tablet'
  * console.log(result.isPC); // true | false
+ * console.log(result.browser); // { name: 'Chrome', version: '120.0.0.0', major: '120' }
+ * console.log(result.os); // { name: 'Windows', version: '10' }
  * ```
  */
 export function deviceDetection(userAgent?: string): DeviceDetectionResult {
@@ -52,13 +85,180 @@ export function deviceDetection(userAgent?: string): DeviceDetectionResult {
     deviceType = DeviceType.PC;
   }
   
-  return {
+  const { browser, os, engine, device, container, bot } = parseUserAgent(userAgent);
+  
+  const result: DeviceDetectionResult = {
     type: deviceType,
     isPC: deviceType === DeviceType.PC,
     isMobile: deviceType === DeviceType.Mobile,
     isTablet: deviceType === DeviceType.Tablet,
-    userAgent: ua
+    userAgent: ua,
+    browser,
+    os,
+    engine,
+    device,
+    container,
+    bot
   };
+  
+  // 未传入用户代理时，通过触摸点数识别伪装成 Mac 的 iPad
+  if (!userAgent) {
+    applyIPadOS(result);
+  }
+  
+  return result;
+}
+
+/**
+ * 更新设备类型及对应的布尔值
+ */
+function setDeviceType(result: DeviceDetectionResult, type: DeviceType): void {
+  result.type = type;
+  result.isPC = type === DeviceType.PC;
+  result.isMobile = type === DeviceType.Mobile;
+  result.isTablet = type === DeviceType.Tablet;
+}
+
+/**
+ * iPadOS 13 起 Safari 默认请求桌面版网页，用户代理与 Mac 相同，Mac 没有触摸屏，可以通过触摸点数区分
+ */
+function applyIPadOS(result: DeviceDetectionResult): void {
+  const maxTouchPoints = typeof navigator !== 'undefined' ? navigator.maxTouchPoints || 0 : 0;
+  if (result.os.name !== 'macOS' || maxTouchPoints <= 1) {
+    return;
+  }
+
+  setDeviceType(result, DeviceType.Tablet);
+  // Safari 的版本号与系统版本号一致
+  result.os = { name: 'iOS', version: result.browser.name === 'Safari' ? result.browser.version : '' };
+  result.device = { vendor: 'Apple', model: 'iPad' };
+}
+
+/**
+ * 客户端提示中的品牌名称与 `parseUserAgent` 中浏览器名称的对应关系
+ */
+const CLIENT_HINTS_BRANDS: Record<string, string> = {
+  'Google Chrome': 'Chrome',
+  'Microsoft Edge': 'Edge',
+  'Android WebView': 'Chrome WebView',
+  'HeadlessChrome': 'Chrome Headless',
+  'Opera': 'Opera',
+  'Opera GX': 'Opera',
+  'YaBrowser': 'Yandex',
+  'Yandex': 'Yandex',
+  'Samsung Internet': 'Samsung Internet',
+  'HuaweiBrowser': 'Huawei Browser',
+  'Brave': 'Brave',
+  'Vivaldi': 'Vivaldi'
+};
+
+/**
+ * 可以被客户端提示覆盖的浏览器，这些浏览器的用户代理已被冻结
+ */
+const FROZEN_BROWSERS = ['', 'Chrome', 'Chromium', 'Chrome WebView', 'Chrome Headless', 'Edge', 'Opera'];
+
+/**
+ * 从品牌列表中选出浏览器，忽略 `Not A Brand` 等干扰项，只有 `Chromium` 时使用 `Chromium`
+ */
+function pickClientHintsBrand(brands: ClientHintsBrand[]): ClientHintsBrand | undefined {
+  const valid = brands.filter(item => !/Not.?A.?Brand/i.test(item.brand));
+  const brand = valid.find(item => item.brand !== 'Chromium') || valid[0];
+  return brand && { brand: CLIENT_HINTS_BRANDS[brand.brand] || brand.brand, version: brand.version };
+}
+
+/**
+ * 客户端提示中的操作系统版本转换为 `parseUserAgent` 中的格式
+ */
+function formatPlatformVersion(platform: string, version: string): string {
+  if (platform === 'Windows') {
+    // Windows 11 的平台版本号从 13 开始，Windows 10 为 1 ~ 10
+    const [major, minor] = version.split('.').map(Number);
+    if (major >= 13) {
+      return '11';
+    }
+    if (major >= 1) {
+      return '10';
+    }
+    return ({ 1: '7', 2: '8', 3: '8.1' } as Record<number, string>)[minor] || '';
+  }
+  return version.replace(/(?:\.0)+$/, '');
+}
+
+/**
+ * 使用客户端提示修正检测结果
+ */
+function applyClientHints(result: DeviceDetectionResult, hints: ClientHints): void {
+  const brand = pickClientHintsBrand(hints.fullVersionList || hints.brands);
+  if (brand && (FROZEN_BROWSERS.includes(result.browser.name) || brand.brand === result.browser.name)) {
+    result.browser = { name: brand.brand, version: brand.version, major: brand.version.split('.')[0] };
+  }
+
+  const platform = hints.platform === 'Chromium OS' ? 'Chrome OS' : hints.platform;
+  if (platform && platform !== 'Unknown') {
+    result.os = {
+      name: platform,
+      version: hints.platformVersion
+        ? formatPlatformVersion(platform, hints.platformVersion)
+        : platform === result.os.name ? result.os.version : ''
+    };
+  }
+
+  if (hints.model) {
+    result.device = { vendor: matchDeviceVendor(hints.model) || result.device.vendor, model: hints.model };
+  }
+
+  if (hints.mobile) {
+    setDeviceType(result, DeviceType.Mobile);
+  } else if (platform === 'Android') {
+    // Android 平板请求桌面版网页时用户代理中没有 Android 标识，但平台仍为 Android
+    setDeviceType(result, DeviceType.Tablet);
+  } else if (platform && platform !== 'Unknown') {
+    setDeviceType(result, DeviceType.PC);
+  }
+}
+
+/**
+ * 异步检测配置项
+ */
+export interface DeviceDetectionAsyncOptions {
+  /** 用户代理字符串，不传时使用 navigator.userAgent 或请求头中的 `User-Agent` */
+  userAgent?: string;
+  /** 请求头，传入时从 `Sec-CH-UA*` 请求头读取客户端提示，用于 Node.js */
+  headers?: ClientHintsHeaders;
+}
+
+/**
+ * 异步检测设备类型，在用户代理解析结果的基础上使用客户端提示（User-Agent Client Hints）修正浏览器版本、操作系统版本、设备型号和设备类型
+ * 
+ * Chrome 冻结了用户代理中的版本号和设备信息，需要通过客户端提示获取真实信息；不支持客户端提示的浏览器与 `deviceDetection` 结果一致
+ * 
+ * @param options - 配置选项
+ * @param options.userAgent - 用户代理字符串
+ * @param options.headers - 请求头，用于 Node.js
+ * @returns 设备检测结果对象
+ * 
+ * @example
+ * ```typescript
+ * // 浏览器
+ * const result = await deviceDetectionAsync();
+ * console.log(result.os); // { name: 'Windows', version: '11' }
+ * 
+ * // Node.js，需要先通过 Accept-CH 响应头请求高熵值
+ * res.setHeader('Accept-CH', 'Sec-CH-UA-Platform-Version, Sec-CH-UA-Model, Sec-CH-UA-Full-Version-List');
+ * const result = await deviceDetectionAsync({ headers: req.headers });
+ * ```
+ */
+export async function deviceDetectionAsync(options: DeviceDetectionAsyncOptions = {}): Promise<DeviceDetectionResult> {
+  const { headers } = options;
+  const userAgent = options.userAgent || (headers ? readHeader(headers, 'user-agent') : undefined);
+
+  const result = deviceDetection(userAgent);
+  const hints = headers ? parseClientHints(headers) : await getClientHints();
+  if (hints) {
+    applyClientHints(result, hints);
+  }
+
+  return result;
 }
 
 /**
@@ -0,0 +1,418 @@
+/**
+ * 算术表达式解析、计算相关工具函数
+ * 支持任意 JavaScript 环境或框架（需要支持 BigInt），不使用 `eval`
+ */
+
+import { Decimal, type DecimalValue } from './decimal';
+
+/**
+ * 表达式中的变量
+ */
+export type ExpressionVariables = Record<string, DecimalValue>;
+
+/**
+ * 编译后的表达式
+ */
+export interface CompiledExpression {
+  /** 原始表达式 */
+  readonly expression: string;
+  /** 表达式中用到的变量名 */
+  readonly variables: string[];
+  /**
+   * 计算表达式
+   * @param variables - 变量
+   * @returns 返回计算结果
+   */
+  evaluate: (variables?: ExpressionVariables) => Decimal;
+}
+
+/**
+ * 表达式语法错误或计算错误时抛出的错误
+ */
+export class ExpressionError extends Error {
+  /** 出错的位置（从 0 开始的字符索引） */
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type TokenType = 'number' | 'name' | 'operator' | '(' | ')' | ',' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+type ExpressionNode =
+  | { type: 'number'; value: Decimal; position: number }
+  | { type: 'variable'; name: string; position: number }
+  | { type: 'unary'; operator: '-' | '+'; argument: ExpressionNode; position: number }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+/**
+ * 白名单函数
+ */
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; call: (args: Decimal[]) => Decimal }> = {
+  min: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: args => args.reduce((result, item) => (item.lt(result) ? item : result))
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: args => args.reduce((result, item) => (item.gt(result) ? item : result))
+  },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, places]) => {
+      const digits = places ? places.toNumber() : 0;
+      if (!Number.isInteger(digits) || digits < 0) {
+        throw new Error('Decimal places must be a non-negative integer');
+      }
+      return value.round(digits);
+    }
+  },
+  abs: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => value.abs()
+  }
+};
+
+/**
+ * `^` 运算结果的最大位数，避免计算超大的数
+ */
+const MAX_POWER_DIGITS = 10000;
+
+/**
+ * 语法树的最大深度（括号、一元运算符、函数调用的嵌套层数及连续运算符的数量），避免递归解析、计算时栈溢出
+ */
+const MAX_EXPRESSION_DEPTH = 500;
+
+const NUMBER_REGEXP = /\d+(?:\.\d*)?|\.\d+/y;
+const NAME_REGEXP = /[A-Za-z_$][\w$]*/y;
+
+/**
+ * 将表达式拆分为 token
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    NUMBER_REGEXP.lastIndex = index;
+    const number = NUMBER_REGEXP.exec(expression);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    NAME_REGEXP.lastIndex = index;
+    const name = NAME_REGEXP.exec(expression);
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], position: index });
+      index += name[0].length;
+      continue;
+    }
+
+    if ('+-*/%^'.includes(char)) {
+      tokens.push({ type: 'operator', value: char, position: index });
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push({ type: char, value: char, position: index });
+    } else {
+      throw new ExpressionError(`Unexpected character "${char}"`, index);
+    }
+    index++;
+  }
+
+  tokens.push({ type: 'end', value: '', position: expression.length });
+  return tokens;
+}
+
+/**
+ * 递归下降解析，优先级从低到高：`+ -`、`* / %`、一元 `-`、`^`（右结合）
+ */
+function parse(expression: string): ExpressionNode {
+  const tokens = tokenize(expression);
+  let current = 0;
+
+  let depth = 0;
+
+  const peek = (): Token => tokens[current];
+  const next = (): Token => tokens[current++];
+
+  /**
+   * 进入下一层语法树，超过最大深度时抛出错误
+   */
+  function enter(token: Token): void {
+    if (++depth > MAX_EXPRESSION_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply', token.position);
+    }
+  }
+
+  function unexpected(token: Token): ExpressionError {
+    return token.type === 'end'
+      ? new ExpressionError('Unexpected end of expression', token.position)
+      : new ExpressionError(`Unexpected token "${token.value}"`, token.position);
+  }
+
+  function expect(type: TokenType): Token {
+    const token = next();
+    if (token.type !== type) {
+      throw unexpected(token);
+    }
+    return token;
+  }
+
+  function parseAdditive(): ExpressionNode {
+    const start = depth;
+    let left = parseMultiplicative();
+    while (peek().type === 'operator' && (peek().value === '+' || peek().value === '-')) {
+      const token = next();
+      // 连续的运算符生成左深的语法树，每个运算符都会增加一层
+      enter(token);
+      left = { type: 'binary', operator: token.value, left, right: parseMultiplicative(), position: token.position };
+    }
+    depth = start;
+    return left;
+  }
+
+  function parseMultiplicative(): ExpressionNode {
+    const start = depth;
+    let left = parseUnary();
+    while (peek().type === 'operator' && '*/%'.includes(peek().value)) {
+      const token = next();
+      enter(token);
+      left = { type: 'binary', operator: token.value, left, right: parseUnary(), position: token.position };
+    }
+    depth = start;
+    return left;
+  }
+
+  function parseUnary(): ExpressionNode {
+    const token = peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      next();
+      enter(token);
+      const argument = parseUnary();
+      depth--;
+      return { type: 'unary', operator: token.value, argument, position: token.position };
+    }
+    return parsePower();
+  }
+
+  function parsePower(): ExpressionNode {
+    const base = parsePrimary();
+    if (peek().type === 'operator' && peek().value === '^') {
+      const token = next();
+      enter(token);
+      // -2 ^ 2 为 -4，2 ^ -1 为 0.5
+      const exponent = parseUnary();
+      depth--;
+      return { type: 'binary', operator: '^', left: base, right: exponent, position: token.position };
+    }
+    return base;
+  }
+
+  function parsePrimary(): ExpressionNode {
+    const token = next();
+
+    if (token.type === 'number') {
+      return { type: 'number', value: new Decimal(token.value), position: token.position };
+    }
+
+    if (token.type === '(') {
+      enter(token);
+      const node = parseAdditive();
+      expect(')');
+      depth--;
+      return node;
+    }
+
+    if (token.type === 'name') {
+      if (peek().type !== '(') {
+        return { type: 'variable', name: token.value, position: token.position };
+      }
+
+      if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value)) {
+        throw new ExpressionError(`Unknown function "${token.value}"`, token.position);
+      }
+      const fn = FUNCTIONS[token.value];
+
+      next();
+      enter(token);
+      const args: ExpressionNode[] = [];
+      if (peek().type !== ')') {
+        args.push(parseAdditive());
+        while (peek().type === ',') {
+          next();
+          args.push(parseAdditive());
+        }
+      }
+      expect(')');
+      depth--;
+
+      if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        throw new ExpressionError(`Invalid number of arguments for "${token.value}"`, token.position);
+      }
+      return { type: 'call', name: token.value, args, position: token.position };
+    }
+
+    throw unexpected(token);
+  }
+
+  const root = parseAdditive();
+  if (peek().type !== 'end') {
+    throw unexpected(peek());
+  }
+  return root;
+}
+
+/**
+ * 收集表达式中用到的变量名
+ */
+function collectVariables(node: ExpressionNode, names: Set<string>): Set<string> {
+  switch (node.type) {
+    case 'variable':
+      names.add(node.name);
+      break;
+    case 'unary':
+      collectVariables(node.argument, names);
+      break;
+    case 'binary':
+      collectVariables(node.left, names);
+      collectVariables(node.right, names);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectVariables(arg, names));
+      break;
+  }
+  return names;
+}
+
+/**
+ * 计算二元运算
+ */
+function calculate(operator: string, left: Decimal, right: Decimal, position: number): Decimal {
+  switch (operator) {
+    case '+':
+      return left.add(right);
+    case '-':
+      return left.sub(right);
+    case '*':
+      return left.mul(right);
+    case '^': {
+      const exponent = right.toNumber();
+      if (!Number.isInteger(exponent)) {
+        throw new ExpressionError('Exponent must be an integer', position);
+      }
+      if (left.toString().replace(/[-.]/g, '').length * Math.abs(exponent) > MAX_POWER_DIGITS) {
+        throw new ExpressionError('Result of "^" is too large', position);
+      }
+      return left.pow(exponent);
+    }
+    default:
+      if (right.isZero()) {
+        throw new ExpressionError('Division by zero', position);
+      }
+      return operator === '/' ? left.div(right) : left.mod(right);
+  }
+}
+
+/**
+ * 计算语法树
+ */
+function evaluateNode(node: ExpressionNode, variables: ExpressionVariables): Decimal {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable': {
+      if (!Object.prototype.hasOwnProperty.call(variables, node.name)) {
+        throw new ExpressionError(`Undefined variable "${node.name}"`, node.position);
+      }
+      try {
+        return new Decimal(variables[node.name]);
+      } catch {
+        throw new ExpressionError(`Invalid value for variable "${node.name}"`, node.position);
+      }
+    }
+    case 'unary': {
+      const value = evaluateNode(node.argument, variables);
+      return node.operator === '-' ? value.neg() : value;
+    }
+    case 'binary':
+      return calculate(node.operator, evaluateNode(node.left, variables), evaluateNode(node.right, variables), node.position);
+    case 'call': {
+      const args = node.args.map(arg => evaluateNode(arg, variables));
+      try {
+        return FUNCTIONS[node.name].call(args);
+      } catch (error) {
+        throw new ExpressionError((error as Error).message, node.position);
+      }
+    }
+  }
+}
+
+/**
+ * 编译算术表达式，同一表达式需要多次计算时可以避免重复解析
+ * 
+ * 支持 `+ - * / % ^` 运算符、括号、一元负号、变量和 `min`、`max`、`round`、`abs` 函数，
+ * 使用 `Decimal` 计算，不会出现浮点数精度问题；`^` 只支持整数指数；
+ * 括号等嵌套层数或连续运算符超过 500 个时视为语法错误
+ * 
+ * @param expression - 表达式
+ * @returns 返回编译后的表达式，语法错误时抛出 `ExpressionError`，其中 `position` 为出错的位置
+ * 
+ * @example
+ * ```typescript
+ * const price = compileExpression('(base + 0.1) * qty - discount');
+ * price.variables; // ['base', 'qty', 'discount']
+ * price.evaluate({ base: 0.2, qty: 3, discount: 0.5 }).toNumber(); // 0.4
+ * 
+ * compileExpression('(1 + 2'); // ExpressionError: Unexpected end of expression at position 6
+ * ```
+ */
+export function compileExpression(expression: string): CompiledExpression {
+  const root = parse(expression);
+
+  return {
+    expression,
+    variables: Array.from(collectVariables(root, new Set())),
+    evaluate: (variables = {}) => evaluateNode(root, variables)
+  };
+}
+
+/**
+ * 计算算术表达式，规则同 `compileExpression`
+ * 
+ * @param expression - 表达式
+ * @param variables - 变量
+ * @returns 返回计算结果，语法错误、变量未定义、除数为 0 时抛出 `ExpressionError`
+ * 
+ * @example
+ * ```typescript
+ * evaluateExpression('0.1 + 0.2').toNumber(); // 0.3
+ * evaluateExpression('-2 ^ 2 + 10 % 4').toNumber(); // -2
+ * evaluateExpression('round(max(price * 0.85, floor), 2)', { price: 19.99, floor: 10 }).toFixed(2); // '16.99'
+ * evaluateExpression('1 +* 2'); // ExpressionError: Unexpected token "*" at position 3
+ * ```
+ */
+export function evaluateExpression(expression: string, variables?: ExpressionVariables): Decimal {
+  return compileExpression(expression).evaluate(variables);
+}
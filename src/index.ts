@@ -6,12 +6,40 @@
 // 导出设备检测相关函数和类型
 export {
   deviceDetection,
+  deviceDetectionAsync,
   isMobileDevice,
   isPCDevice,
   DeviceType,
-  type DeviceDetectionResult
+  type DeviceDetectionResult,
+  type DeviceDetectionAsyncOptions
 } from './deviceDetection';
 
+// 导出用户代理客户端提示相关函数和类型
+export {
+  getClientHints,
+  parseClientHints,
+  type ClientHints,
+  type ClientHintsBrand,
+  type ClientHintsHeaders
+} from './clientHints';
+
+// 导出用户代理解析相关函数和类型
+export {
+  parseUserAgent,
+  detectContainer,
+  detectBot,
+  isBot,
+  type BotCategory,
+  type BotDetectionResult,
+  type UserAgentBrowser,
+  type UserAgentOS,
+  type UserAgentEngine,
+  type UserAgentDevice,
+  type UserAgentContainerName,
+  type UserAgentContainer,
+  type UserAgentResult
+} from './userAgent';
+
 // 导出金额相关函数和类型
 export {
   centsToDollars,
@@ -137,6 +165,20 @@ export {
   type isParams
 } from './is';
 
+// 导出运行环境能力检测相关函数和类型
+export {
+  getCapabilities,
+  supportsImageFormat,
+  supportsPassiveEvents,
+  isStorageAvailable,
+  isIndexedDBAvailable,
+  getNetworkInfo,
+  type ImageFormat,
+  type WebStorageType,
+  type NetworkInfo,
+  type CapabilityReport
+} from './capability';
+
 // 导出超链接相关函数和类型
 export {
   openLink,
@@ -157,6 +199,30 @@ export {
   formatBytes
 } from './math';
 
+// 导出任意精度十进制数相关类和类型
+export {
+  Decimal,
+  type DecimalValue,
+  type DecimalConfig,
+  type RoundingMode
+} from './decimal';
+
+// 导出链式精确计算相关函数和类型
+export {
+  calc,
+  type Calculator,
+  type CalculatorValue
+} from './calc';
+
+// 导出算术表达式计算相关函数和类型
+export {
+  compileExpression,
+  evaluateExpression,
+  ExpressionError,
+  type ExpressionVariables,
+  type CompiledExpression
+} from './expression';
+
 // 导出鼠标事件相关函数和类型
 export {
   banMouseEvent,
@@ -195,13 +261,76 @@ export {
   removeAllSpace
 } from './space';
 
-// 导出本地存储相关函数和类型（仅用于浏览器）
+// 导出本地存储相关函数和类型（非浏览器环境下使用 createMemoryBackend 创建内存存储）
 export {
   storageLocal,
   storageSession,
-  type StorageInterface
+  createStorage,
+  createNamespacedStorage,
+  createMemoryBackend,
+  type StorageInterface,
+  type StorageSetOptions,
+  type StorageOptions,
+  type StorageBackend,
+  type StorageChangeEvent,
+  type StorageListener,
+  type StorageUsage,
+  type StorageEvictionPolicy,
+  type AsyncStorageInterface
 } from './storage';
 
+// 导出加密存储相关函数和类型（需要 Web Crypto API）
+export {
+  createEncryptedStorage,
+  type EncryptionKey,
+  type EncryptedStorageOptions,
+  type EncryptedStorageInterface
+} from './storageEncrypted';
+
+// 导出带版本号的存储相关函数和类型
+export {
+  createVersionedStorage,
+  type StorageMigration,
+  type VersionedStorageOptions,
+  type VersionedStorageInterface
+} from './storageVersioned';
+
+// 导出 IndexedDB 存储相关函数和类型（仅用于浏览器，Node.js 中需传入 IndexedDB 实现）
+export {
+  storageIndexed,
+  type IndexedStorageOptions,
+  type IndexedStorageInterface
+} from './storageIndexed';
+
+// 导出 Cookie 相关函数和类型
+export {
+  parseCookie,
+  serializeCookie,
+  parseSetCookie,
+  getAllCookies,
+  getCookie,
+  setCookie,
+  removeCookie,
+  type CookieSameSite,
+  type CookieOptions,
+  type SetCookie
+} from './cookie';
+
+// 导出序列化相关函数和类型
+export {
+  createTaggedSerializer,
+  defaultSerializer,
+  jsonSerializer,
+  type StorageSerializer,
+  type SerializerType,
+  type TaggedSerializer
+} from './serializer';
+
+// 导出基于 JSON 文件的存储后端（仅用于 Node.js）
+export {
+  createFileBackend
+} from './storageFile';
+
 // 导出截取字符相关函数和类型
 export {
   subBefore,
@@ -220,12 +349,70 @@ export {
   type SvgInfo
 } from './svg';
 
-// 导出提取 url 中所有参数、获取当前的 location 信息相关函数（仅用于浏览器）
+// 导出提取 url 中所有参数、获取当前的 location 信息相关函数（getLocation 仅用于浏览器）
 export {
   getQueryMap,
-  getLocation
+  parseQuery,
+  stringifyQuery,
+  setQuery,
+  mergeQuery,
+  removeQuery,
+  replacePath,
+  replaceHash,
+  joinURL,
+  getLocation,
+  type ParseQueryOptions,
+  type ParsedQuery,
+  type QueryArrayFormat,
+  type StringifyQueryOptions,
+  type UrlQueryTarget,
+  type UrlQueryOptions
 } from './url';
 
+// 导出查询参数 Schema 相关函数和类型
+export {
+  defineQuerySchema,
+  QuerySchemaError,
+  type QueryFieldType,
+  type QueryFieldValue,
+  type QueryFieldDefinition,
+  type QuerySchemaDefinition,
+  type InferQuery,
+  type QuerySchemaIssue,
+  type QuerySchemaResult,
+  type QuerySchemaOptions,
+  type QuerySchemaStringifyOptions,
+  type QuerySchema
+} from './querySchema';
+
+// 导出路由路径匹配、路由地址生成相关函数和类型
+export {
+  compileRoutePattern,
+  matchRoute,
+  buildRoute,
+  type RouteParams,
+  type RouteBuildParams,
+  type RoutePatternOptions,
+  type RouteMatch,
+  type RoutePattern
+} from './routePattern';
+
+// 导出监听 url 变化相关函数和类型（仅用于浏览器）
+export {
+  getLocationSnapshot,
+  subscribeLocation,
+  type LocationChangeType,
+  type LocationSnapshot,
+  type LocationChangeEvent,
+  type LocationListener
+} from './locationObserver';
+
+// 导出响应式 url 相关组合式函数和类型（仅用于 Vue3）
+export {
+  useLocation,
+  type UseLocationReturn
+} from './useLocation';
+
 // 导出 uuid 相关函数
 export {
   buildUUID,
@@ -0,0 +1,166 @@
+/**
+ * 监听浏览器 url 变化相关工具函数
+ * 支持任意运行在浏览器的 JavaScript 语言，不依赖路由库
+ */
+
+import { getQueryMap } from './url';
+
+/**
+ * url 变化的来源
+ * - `push`：调用 `history.pushState`
+ * - `replace`：调用 `history.replaceState`
+ * - `pop`：浏览器前进、后退（`popstate`）
+ * - `hash`：hash 变化（`hashchange`）
+ */
+export type LocationChangeType = 'push' | 'replace' | 'pop' | 'hash';
+
+/**
+ * 当前 url 的快照
+ */
+export interface LocationSnapshot {
+  /** 完整的 url */
+  href: string;
+  /** 协议和主机 */
+  origin: string;
+  /** 路径 */
+  pathname: string;
+  /** 查询字符串（含 `?`） */
+  search: string;
+  /** hash（含 `#`） */
+  hash: string;
+  /** 查询参数，同 `getQueryMap`，hash 路由中的查询参数优先 */
+  query: Record<string, string>;
+}
+
+/**
+ * url 变化事件
+ */
+export interface LocationChangeEvent {
+  /** 变化的来源 */
+  type: LocationChangeType;
+  /** 变化前的 url 快照 */
+  previous: LocationSnapshot;
+}
+
+/**
+ * url 变化监听函数
+ */
+export type LocationListener = (location: LocationSnapshot, event: LocationChangeEvent) => void;
+
+const listeners = new Set<LocationListener>();
+let lastSnapshot: LocationSnapshot | null = null;
+let historyPatched = false;
+
+/**
+ * 获取当前 url 的快照
+ * 
+ * @returns 返回当前 url 的快照，非浏览器环境返回 null
+ * 
+ * @example
+ * ```typescript
+ * getLocationSnapshot();
+ * // { href: 'http://test/#/list?page=2', origin: 'http://test', pathname: '/', search: '', hash: '#/list?page=2', query: { page: '2' } }
+ * ```
+ */
+export function getLocationSnapshot(): LocationSnapshot | null {
+  if (typeof window === 'undefined' || !window.location) {
+    return null;
+  }
+
+  const { href, origin, pathname, search, hash } = window.location;
+  return { href, origin, pathname, search, hash, query: getQueryMap(href) };
+}
+
+/**
+ * url 变化时通知所有监听函数，url 没有变化时不通知
+ */
+function notifyLocationChange(type: LocationChangeType): void {
+  const current = getLocationSnapshot();
+  if (!current || !lastSnapshot || current.href === lastSnapshot.href) {
+    return;
+  }
+
+  const event: LocationChangeEvent = { type, previous: lastSnapshot };
+  lastSnapshot = current;
+
+  listeners.forEach(listener => {
+    try {
+      listener(current, event);
+    } catch (error) {
+      console.error('subscribeLocation listener error:', error);
+    }
+  });
+}
+
+/**
+ * 包装 `history.pushState`、`history.replaceState`，只会执行一次
+ */
+function patchHistory(): void {
+  if (historyPatched || typeof history === 'undefined') {
+    return;
+  }
+  historyPatched = true;
+
+  const wrap = (method: 'pushState' | 'replaceState', type: LocationChangeType): void => {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = original.apply(this, args);
+      notifyLocationChange(type);
+      return result;
+    };
+  };
+
+  wrap('pushState', 'push');
+  wrap('replaceState', 'replace');
+}
+
+function handlePopState(): void {
+  notifyLocationChange('pop');
+}
+
+function handleHashChange(): void {
+  notifyLocationChange('hash');
+}
+
+/**
+ * 监听 url 变化，包括 `pushState`、`replaceState`、浏览器前进后退和 hash 变化
+ * 
+ * @param listener - 监听函数，url 变化时调用，参数为变化后的 url 快照和变化事件
+ * @returns 返回取消监听的函数
+ * 
+ * @example
+ * ```typescript
+ * const unsubscribe = subscribeLocation((location, { type, previous }) => {
+ *   if (location.query.page !== previous.query.page) {
+ *     loadList(Number(location.query.page || 1));
+ *   }
+ * });
+ * 
+ * history.pushState(null, '', '?page=2'); // 触发监听函数，type 为 'push'
+ * 
+ * unsubscribe();
+ * ```
+ */
+export function subscribeLocation(listener: LocationListener): () => void {
+  if (typeof window === 'undefined' || !window.location) {
+    console.warn('subscribeLocation: window is not available, this function only works in browser environment');
+    return () => {};
+  }
+
+  if (!listeners.size) {
+    lastSnapshot = getLocationSnapshot();
+    patchHistory();
+    window.addEventListener('popstate', handlePopState);
+    window.addEventListener('hashchange', handleHashChange);
+  }
+  listeners.add(listener);
+
+  return () => {
+    if (!listeners.delete(listener) || listeners.size) {
+      return;
+    }
+    window.removeEventListener('popstate', handlePopState);
+    window.removeEventListener('hashchange', handleHashChange);
+    lastSnapshot = null;
+  };
+}
@@ -3,6 +3,8 @@
  * 支持任意 JavaScript 环境或框架
  */
 
+import { Decimal, DEFAULT_DECIMAL_CONFIG, type RoundingMode } from './decimal';
+
 /**
  * 求数字类型组成数组中的最大值
  * 
@@ -201,51 +203,48 @@ export function numberToChinese(num: number | string): string {
 }
 
 /**
- * 获取数字的小数位数
+ * 按需舍入并转换为数值
  */
-function getDecimalPlaces(num: number): number {
-  const str = num.toString();
-  if (str.indexOf('.') === -1) {
-    return 0;
+function toResult(result: Decimal, decimal: number | undefined, rounding: RoundingMode): number {
+  if (decimal !== undefined && decimal > 0) {
+    return result.round(decimal, rounding).toNumber();
   }
-  return str.split('.')[1].length;
+  return result.toNumber();
 }
 
 /**
- * 两个数值的加法运算（防止精度丢失）
+ * 两个数值的加法运算（防止精度丢失，基于 `Decimal` 计算）
  * 
  * @param num1 - 第一个数值
  * @param num2 - 第二个数值
- * @param decimal - 四舍五入保留的小数位数，为 0 时不进行任何处理
+ * @param decimal - 保留的小数位数，为 0 时不进行任何处理
+ * @param rounding - 舍入方式，默认 `half-up` 四舍五入，不受 `Decimal.config()` 影响
  * @returns 返回计算结果
  * 
  * @example
  * ```typescript
  * addition(0.1, 0.2); // 0.3
  * addition(0.126, 0.238, 2); // 0.36
+ * addition(1.004, 0.001, 2); // 1.01
+ * addition(1.004, 0.001, 2, 'half-even'); // 1
  * ```
  */
-export function addition(num1: number, num2: number, decimal?: number): number {
-  const places1 = getDecimalPlaces(num1);
-  const places2 = getDecimalPlaces(num2);
-  const maxPlaces = Math.max(places1, places2);
-  const multiplier = Math.pow(10, maxPlaces);
-  
-  const result = (Math.round(num1 * multiplier) + Math.round(num2 * multiplier)) / multiplier;
-  
-  if (decimal !== undefined && decimal > 0) {
-    return Math.round(result * Math.pow(10, decimal)) / Math.pow(10, decimal);
-  }
-  
-  return result;
+export function addition(
+  num1: number,
+  num2: number,
+  decimal?: number,
+  rounding: RoundingMode = DEFAULT_DECIMAL_CONFIG.rounding
+): number {
+  return toResult(new Decimal(num1).add(num2), decimal, rounding);
 }
 
 /**
- * 两个数值的减法运算（防止精度丢失）
+ * 两个数值的减法运算（防止精度丢失，基于 `Decimal` 计算）
  * 
  * @param num1 - 第一个数值
  * @param num2 - 第二个数值
- * @param decimal - 四舍五入保留的小数位数，为 0 时不进行任何处理
+ * @param decimal - 保留的小数位数，为 0 时不进行任何处理
+ * @param rounding - 舍入方式，默认 `half-up` 四舍五入，不受 `Decimal.config()` 影响
  * @returns 返回计算结果
  * 
  * @example
@@ -254,27 +253,22 @@ export function addition(num1: number, num2: number, decimal?: number): number {
  * subtraction(0.2342, 0.1233, 3); // 0.111
  * ```
  */
-export function subtraction(num1: number, num2: number, decimal?: number): number {
-  const places1 = getDecimalPlaces(num1);
-  const places2 = getDecimalPlaces(num2);
-  const maxPlaces = Math.max(places1, places2);
-  const multiplier = Math.pow(10, maxPlaces);
-  
-  const result = (Math.round(num1 * multiplier) - Math.round(num2 * multiplier)) / multiplier;
-  
-  if (decimal !== undefined && decimal > 0) {
-    return Math.round(result * Math.pow(10, decimal)) / Math.pow(10, decimal);
-  }
-  
-  return result;
+export function subtraction(
+  num1: number,
+  num2: number,
+  decimal?: number,
+  rounding: RoundingMode = DEFAULT_DECIMAL_CONFIG.rounding
+): number {
+  return toResult(new Decimal(num1).sub(num2), decimal, rounding);
 }
 
 /**
- * 两个数值的乘法运算（防止精度丢失）
+ * 两个数值的乘法运算（防止精度丢失，基于 `Decimal` 计算）
  * 
  * @param num1 - 第一个数值
  * @param num2 - 第二个数值
- * @param decimal - 四舍五入保留的小数位数，为 0 时不进行任何处理
+ * @param decimal - 保留的小数位数，为 0 时不进行任何处理
+ * @param rounding - 舍入方式，默认 `half-up` 四舍五入，不受 `Decimal.config()` 影响
  * @returns 返回计算结果
  * 
  * @example
@@ -283,56 +277,47 @@ export function subtraction(num1: number, num2: number, decimal?: number): numbe
  * multiplication(1.27342, 2.12306, 4); // 2.7035
  * ```
  */
-export function multiplication(num1: number, num2: number, decimal?: number): number {
-  const places1 = getDecimalPlaces(num1);
-  const places2 = getDecimalPlaces(num2);
-  const totalPlaces = places1 + places2;
-  
-  const multiplier1 = Math.pow(10, places1);
-  const multiplier2 = Math.pow(10, places2);
-  
-  const result = (Math.round(num1 * multiplier1) * Math.round(num2 * multiplier2)) / Math.pow(10, totalPlaces);
-  
-  if (decimal !== undefined && decimal > 0) {
-    return Math.round(result * Math.pow(10, decimal)) / Math.pow(10, decimal);
-  }
-  
-  return result;
+export function multiplication(
+  num1: number,
+  num2: number,
+  decimal?: number,
+  rounding: RoundingMode = DEFAULT_DECIMAL_CONFIG.rounding
+): number {
+  return toResult(new Decimal(num1).mul(num2), decimal, rounding);
 }
 
 /**
- * 两个数值的除法运算（防止精度丢失）
+ * 两个数值的除法运算（防止精度丢失，基于 `Decimal` 计算）
  * 
  * @param num1 - 第一个数值（被除数）
  * @param num2 - 第二个数值（除数）
- * @param decimal - 四舍五入保留的小数位数，为 0 时不进行任何处理
+ * @param decimal - 保留的小数位数，为 0 时不进行任何处理
+ * @param rounding - 舍入方式，默认 `half-up` 四舍五入，不受 `Decimal.config()` 影响
  * @returns 返回计算结果
  * 
  * @example
  * ```typescript
  * divisionOperation(4.2, 2.1); // 2
  * divisionOperation(8.73, 2.16, 2); // 4.04
+ * divisionOperation(10, 3, 2, 'ceil'); // 3.34
  * ```
  */
-export function divisionOperation(num1: number, num2: number, decimal?: number): number {
+export function divisionOperation(
+  num1: number,
+  num2: number,
+  decimal?: number,
+  rounding: RoundingMode = DEFAULT_DECIMAL_CONFIG.rounding
+): number {
   if (num2 === 0) {
     throw new Error('Division by zero is not allowed');
   }
   
-  const places1 = getDecimalPlaces(num1);
-  const places2 = getDecimalPlaces(num2);
-  const maxPlaces = Math.max(places1, places2);
-  
-  const multiplier1 = Math.pow(10, maxPlaces);
-  const multiplier2 = Math.pow(10, maxPlaces);
-  
-  const result = (Math.round(num1 * multiplier1) / Math.round(num2 * multiplier2));
-  
+  // 指定小数位数时直接按舍入方式计算到该位数，避免二次舍入
   if (decimal !== undefined && decimal > 0) {
-    return Math.round(result * Math.pow(10, decimal)) / Math.pow(10, decimal);
+    return new Decimal(num1).div(num2, decimal, rounding).toNumber();
   }
   
-  return result;
+  return new Decimal(num1).div(num2, DEFAULT_DECIMAL_CONFIG.precision, rounding).toNumber();
 }
 
 /**
@@ -0,0 +1,331 @@
+/**
+ * 查询参数 Schema 相关工具函数
+ * 支持任意 JavaScript 环境或框架
+ */
+
+import { parseQuery, stringifyQuery, type QueryArrayFormat, type StringifyQueryOptions } from './url';
+
+/**
+ * 查询参数字段类型
+ */
+export type QueryFieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'date'
+  | 'string[]'
+  | 'number[]'
+  | 'boolean[]'
+  | 'date[]';
+
+/**
+ * 字段类型与值类型的对应关系
+ */
+interface QueryFieldTypeMap {
+  string: string;
+  number: number;
+  boolean: boolean;
+  date: Date;
+  'string[]': string[];
+  'number[]': number[];
+  'boolean[]': boolean[];
+  'date[]': Date[];
+}
+
+/**
+ * 字段类型对应的值类型
+ */
+export type QueryFieldValue<T extends QueryFieldType> = QueryFieldTypeMap[T];
+
+/**
+ * 查询参数字段定义
+ */
+export interface QueryFieldDefinition<T extends QueryFieldType = QueryFieldType> {
+  /** 字段类型 */
+  type: T;
+  /** 默认值，参数缺失或无效时使用 */
+  default?: QueryFieldValue<T>;
+  /** 是否必填，默认 `false` */
+  required?: boolean;
+  /** 自定义校验，返回 `false` 或错误信息时校验不通过 */
+  validate?: (value: QueryFieldValue<T>) => boolean | string;
+}
+
+/**
+ * 各字段类型的字段定义组成的联合类型，`default` 和 `validate` 的参数按 `type` 校验
+ */
+type AnyQueryFieldDefinition = { [T in QueryFieldType]: QueryFieldDefinition<T> }[QueryFieldType];
+
+/**
+ * 查询参数 Schema 定义，值可以是字段类型或字段定义
+ */
+export type QuerySchemaDefinition = Record<string, QueryFieldType | AnyQueryFieldDefinition>;
+
+type FieldTypeOf<F> = F extends QueryFieldType
+  ? F
+  : F extends { type: infer T extends QueryFieldType }
+    ? T
+    : never;
+
+type IsFieldDefined<F> = F extends { default: any } ? true : F extends { required: true } ? true : false;
+
+/**
+ * 根据 Schema 定义推导出的查询参数类型，有默认值或必填的字段不会是 undefined
+ */
+export type InferQuery<S extends QuerySchemaDefinition> = {
+  [K in keyof S]: IsFieldDefined<S[K]> extends true
+    ? QueryFieldValue<FieldTypeOf<S[K]>>
+    : QueryFieldValue<FieldTypeOf<S[K]>> | undefined;
+};
+
+/**
+ * 查询参数校验问题
+ */
+export interface QuerySchemaIssue {
+  /** 字段名 */
+  key: string;
+  /** 错误信息 */
+  message: string;
+  /** 原始值 */
+  value: unknown;
+}
+
+/**
+ * 查询参数校验结果
+ */
+export interface QuerySchemaResult<T> {
+  /** 解析后的数据，无效字段使用默认值 */
+  data: T;
+  /** 校验问题，为空数组时表示校验通过 */
+  errors: QuerySchemaIssue[];
+}
+
+/**
+ * 查询参数 Schema 配置项
+ */
+export interface QuerySchemaOptions {
+  /** 数组参数的格式，默认 `repeat` */
+  arrayFormat?: QueryArrayFormat;
+}
+
+/**
+ * 序列化查询参数的配置项
+ */
+export interface QuerySchemaStringifyOptions extends StringifyQueryOptions {
+  /** 是否省略与默认值相同的字段，默认 `false` */
+  omitDefaults?: boolean;
+}
+
+/**
+ * 查询参数 Schema
+ */
+export interface QuerySchema<S extends QuerySchemaDefinition> {
+  /** Schema 定义 */
+  readonly definition: S;
+  /**
+   * 解析并校验查询参数，校验不通过时抛出 `QuerySchemaError`
+   * @param input - url 或已解析的查询参数对象（如 `getQueryMap` 的结果、`route.query`）
+   */
+  parse: (input: string | Record<string, any>) => InferQuery<S>;
+  /**
+   * 解析并校验查询参数，不抛出错误
+   * @param input - url 或已解析的查询参数对象
+   */
+  validate: (input: string | Record<string, any>) => QuerySchemaResult<InferQuery<S>>;
+  /**
+   * 将查询参数序列化为查询字符串
+   * @param values - 查询参数
+   * @param options - 配置选项
+   */
+  stringify: (values: Partial<InferQuery<S>>, options?: QuerySchemaStringifyOptions) => string;
+}
+
+/**
+ * 查询参数校验不通过时抛出的错误
+ */
+export class QuerySchemaError extends Error {
+  /** 校验问题 */
+  readonly issues: QuerySchemaIssue[];
+
+  constructor(issues: QuerySchemaIssue[]) {
+    super(`Invalid query: ${issues.map(issue => `${issue.key} ${issue.message}`).join(', ')}`);
+    this.name = 'QuerySchemaError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * 将单个原始值转换为对应类型，无法转换时返回 undefined
+ */
+function convertQueryValue(type: string, raw: unknown): string | number | boolean | Date | undefined {
+  if (raw === null || raw === undefined || typeof raw === 'object') {
+    return undefined;
+  }
+  const str = String(raw);
+
+  switch (type) {
+    case 'string':
+      return str;
+    case 'number': {
+      // 只接受十进制数字，`Infinity`、`0x10`、`1e3`、带空格的值视为无效
+      if (!/^-?(?:\d+\.?\d*|\.\d+)$/.test(str)) {
+        return undefined;
+      }
+      const num = Number(str);
+      return Number.isFinite(num) ? num : undefined;
+    }
+    case 'boolean':
+      if (str === 'true' || str === '1' || str === '') {
+        return true;
+      }
+      if (str === 'false' || str === '0') {
+        return false;
+      }
+      return undefined;
+    case 'date': {
+      const date = new Date(/^-?\d+$/.test(str) ? Number(str) : str);
+      return isNaN(date.getTime()) ? undefined : date;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 比较两个字段值是否相同，用于省略默认值
+ */
+function isSameQueryValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameQueryValue(item, b[index]));
+  }
+  return a === b;
+}
+
+/**
+ * 定义查询参数 Schema，解析结果的类型由 Schema 自动推导
+ * 
+ * @param definition - Schema 定义
+ * @param options - 配置选项
+ * @param options.arrayFormat - 数组参数的格式，默认 `repeat`
+ * @returns 返回查询参数 Schema
+ * 
+ * @example
+ * ```typescript
+ * const listQuery = defineQuerySchema({
+ *   page: { type: 'number', default: 1, validate: page => page > 0 || 'must be positive' },
+ *   size: { type: 'number', default: 20 },
+ *   ids: 'number[]',
+ *   active: 'boolean',
+ *   keyword: { type: 'string', required: true }
+ * });
+ * 
+ * const query = listQuery.parse('https://example.com/list?ids=1&ids=2&active=true&keyword=a');
+ * // { page: 1, size: 20, ids: [1, 2], active: true, keyword: 'a' }
+ * // 类型为 { page: number; size: number; ids: number[] | undefined; active: boolean | undefined; keyword: string }
+ * 
+ * const { data, errors } = listQuery.validate(getQueryMap(location.href));
+ * 
+ * listQuery.stringify({ ...query, page: 2 }, { omitDefaults: true });
+ * // 'page=2&ids=1&ids=2&active=true&keyword=a'
+ * ```
+ */
+export function defineQuerySchema<S extends QuerySchemaDefinition>(
+  definition: S,
+  options: QuerySchemaOptions = {}
+): QuerySchema<S> {
+  const { arrayFormat = 'repeat' } = options;
+
+  const fields = Object.keys(definition).map(key => {
+    const field = definition[key];
+    return {
+      key,
+      ...(typeof field === 'string' ? { type: field } : field)
+    } as QueryFieldDefinition & { key: string };
+  });
+
+  function validate(input: string | Record<string, any>): QuerySchemaResult<InferQuery<S>> {
+    const query = typeof input === 'string'
+      ? parseQuery(input, { comma: arrayFormat === 'comma' })
+      : (input || {});
+    const data: Record<string, any> = {};
+    const errors: QuerySchemaIssue[] = [];
+
+    fields.forEach(field => {
+      const raw = query[field.key];
+      const isArray = field.type.endsWith('[]');
+      const itemType = isArray ? field.type.slice(0, -2) : field.type;
+      const fallback = Array.isArray(field.default) ? [...field.default] : field.default;
+
+      if (raw === undefined || raw === null) {
+        if (field.required && field.default === undefined) {
+          errors.push({ key: field.key, message: 'is required', value: raw });
+        }
+        data[field.key] = fallback;
+        return;
+      }
+
+      let value: any;
+      if (isArray) {
+        const items: unknown[] = Array.isArray(raw)
+          ? raw
+          : arrayFormat === 'comma' && typeof raw === 'string' ? raw.split(',') : [raw];
+        const converted = items.map(item => convertQueryValue(itemType, item));
+        value = converted.some(item => item === undefined) ? undefined : converted;
+      } else {
+        // 单值字段出现重复参数时以最后一个为准，与 getQueryMap 保持一致
+        value = convertQueryValue(itemType, Array.isArray(raw) ? raw[raw.length - 1] : raw);
+      }
+
+      if (value === undefined) {
+        errors.push({ key: field.key, message: `is not a valid ${field.type}`, value: raw });
+        data[field.key] = fallback;
+        return;
+      }
+
+      if (field.validate) {
+        const result = field.validate(value);
+        if (result !== true) {
+          errors.push({ key: field.key, message: typeof result === 'string' ? result : 'is invalid', value: raw });
+          data[field.key] = fallback;
+          return;
+        }
+      }
+
+      data[field.key] = value;
+    });
+
+    return { data: data as InferQuery<S>, errors };
+  }
+
+  return {
+    definition,
+
+    validate,
+
+    parse(input: string | Record<string, any>): InferQuery<S> {
+      const { data, errors } = validate(input);
+      if (errors.length) {
+        throw new QuerySchemaError(errors);
+      }
+      return data;
+    },
+
+    stringify(values: Partial<InferQuery<S>>, stringifyOptions: QuerySchemaStringifyOptions = {}): string {
+      const { omitDefaults = false, ...rest } = stringifyOptions;
+      const output: Record<string, any> = {};
+
+      fields.forEach(field => {
+        const value = (values as Record<string, any>)[field.key];
+        if (value === undefined || (omitDefaults && isSameQueryValue(value, field.default))) {
+          return;
+        }
+        output[field.key] = value;
+      });
+
+      return stringifyQuery(output, { arrayFormat, ...rest });
+    }
+  };
+}
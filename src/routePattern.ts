@@ -0,0 +1,403 @@
+/**
+ * 路由路径匹配、路由地址生成相关工具函数
+ * 支持任意 JavaScript 环境或框架，不依赖路由库
+ */
+
+import {
+  isHashRoute,
+  parseQuery,
+  splitUrl,
+  stringifyQuery,
+  type ParsedQuery,
+  type StringifyQueryOptions,
+  type UrlQueryTarget
+} from './url';
+
+type RouteSegmentParams<S extends string> = S extends `:${infer Name}?`
+  ? { [K in Name]?: string }
+  : S extends `:${infer Name}*`
+    ? { [K in Name]?: string[] }
+    : S extends `:${infer Name}+`
+      ? { [K in Name]: string[] }
+      : S extends `:${infer Name}`
+        ? { [K in Name]: string }
+        : S extends '*'
+          ? { '*'?: string }
+          : {};
+
+type RouteSegmentsParams<P extends string> = P extends `${infer Head}/${infer Tail}`
+  ? RouteSegmentParams<Head> & RouteSegmentsParams<Tail>
+  : RouteSegmentParams<P>;
+
+/**
+ * 根据路由规则推导出的路径参数类型
+ * - `:id`：`string`
+ * - `:id?`：`string | undefined`
+ * - `:path*`：`string[] | undefined`
+ * - `:path+`：`string[]`
+ * - `*`：`'*'` 字段，值为剩余路径
+ */
+export type RouteParams<P extends string> = string extends P
+  ? Record<string, string | string[] | undefined>
+  : { [K in keyof RouteSegmentsParams<P>]: RouteSegmentsParams<P>[K] };
+
+type RouteBuildValue<V> = V extends string
+  ? string | number
+  : V extends string[]
+    ? Array<string | number>
+    : V;
+
+/**
+ * 生成路径时的路径参数类型，参数值可以是数字
+ */
+export type RouteBuildParams<P extends string> = {
+  [K in keyof RouteParams<P>]: RouteBuildValue<RouteParams<P>[K]>;
+};
+
+/**
+ * 路由规则配置项
+ */
+export interface RoutePatternOptions {
+  /** 是否区分大小写，默认 `false` */
+  sensitive?: boolean;
+  /** 是否需要匹配到路径末尾，为 `false` 时可匹配路径前缀，默认 `true` */
+  end?: boolean;
+  /** 匹配的位置，`auto` 时 hash 路由匹配 hash 中的路径，默认 `auto` */
+  target?: UrlQueryTarget;
+}
+
+/**
+ * 路由匹配结果
+ */
+export interface RouteMatch<P extends string = string> {
+  /** 匹配到的路径 */
+  path: string;
+  /** 路径参数 */
+  params: RouteParams<P>;
+  /** 查询参数，同 `parseQuery` */
+  query: ParsedQuery;
+  /** hash（不含 `#`），hash 路由时为空字符串 */
+  hash: string;
+}
+
+/**
+ * 编译后的路由规则
+ */
+export interface RoutePattern<P extends string = string> {
+  /** 路由规则 */
+  readonly pattern: P;
+  /** 路由规则对应的正则 */
+  readonly regexp: RegExp;
+  /** 路径参数名，`*` 通配符的参数名为 `*` */
+  readonly keys: string[];
+  /**
+   * 匹配 url 或路径
+   * @param url - url 或路径，可以包含查询参数和 hash
+   * @returns 返回匹配结果，不匹配时返回 null
+   */
+  match: (url: string) => RouteMatch<P> | null;
+  /**
+   * 是否匹配 url 或路径
+   * @param url - url 或路径
+   */
+  test: (url: string) => boolean;
+  /**
+   * 填充路径参数和查询参数生成路径
+   * @param params - 路径参数，缺少必填参数时抛出错误
+   * @param query - 查询参数
+   * @param options - 查询参数的序列化配置，同 `stringifyQuery`
+   * @returns 返回生成的路径
+   */
+  build: (params: RouteBuildParams<P>, query?: Record<string, any>, options?: StringifyQueryOptions) => string;
+}
+
+/**
+ * 路由规则中的一段
+ */
+interface RouteToken {
+  /** 参数名，静态路径时为 undefined */
+  name?: string;
+  /** 静态路径 */
+  value: string;
+  /** 修饰符 */
+  modifier: '' | '?' | '*' | '+';
+}
+
+const PARAM_REGEXP = /^:([A-Za-z_$][\w$]*)([?*+]?)$/;
+
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function safeDecode(str: string): string {
+  try {
+    return decodeURIComponent(str);
+  } catch {
+    return str;
+  }
+}
+
+/**
+ * 解析路由规则
+ */
+function parseRoutePattern(pattern: string): RouteToken[] {
+  return pattern
+    .split('/')
+    .filter(segment => segment !== '')
+    .map(segment => {
+      if (segment === '*') {
+        return { name: '*', value: segment, modifier: '*' };
+      }
+      const match = PARAM_REGEXP.exec(segment);
+      if (match) {
+        return { name: match[1], value: segment, modifier: match[2] as RouteToken['modifier'] };
+      }
+      return { value: segment, modifier: '' };
+    });
+}
+
+/**
+ * 根据解析结果生成正则
+ */
+function tokensToRegExp(tokens: RouteToken[], options: RoutePatternOptions): RegExp {
+  const { sensitive = false, end = true } = options;
+
+  const source = tokens
+    .map(token => {
+      if (!token.name) {
+        return `\\/${escapeRegExp(token.value)}`;
+      }
+      if (token.name === '*') {
+        return '(?:\\/(.*))?';
+      }
+      switch (token.modifier) {
+        case '?':
+          return '(?:\\/([^/]+))?';
+        case '*':
+          return '(?:\\/([^/]+(?:\\/[^/]+)*))?';
+        case '+':
+          return '\\/([^/]+(?:\\/[^/]+)*)';
+        default:
+          return '\\/([^/]+)';
+      }
+    })
+    .join('');
+
+  return new RegExp(`^${source}\\/?${end ? '$' : '(?=\\/|$)'}`, sensitive ? '' : 'i');
+}
+
+/**
+ * 取出 url 中需要匹配的路径、查询字符串和 hash
+ */
+function resolveRouteLocation(url: string, target: UrlQueryTarget): { path: string; search: string; hash: string } {
+  const parts = splitUrl(url);
+  const useHash = target === 'hash' || (target === 'auto' && isHashRoute(parts.hash));
+
+  if (!useHash) {
+    return { path: parts.pathname || '/', search: parts.search, hash: parts.hash || '' };
+  }
+
+  const hash = parts.hash || '';
+  const queryIndex = hash.indexOf('?');
+  return {
+    path: (queryIndex === -1 ? hash : hash.substring(0, queryIndex)) || '/',
+    search: queryIndex === -1 ? parts.search : hash.substring(queryIndex + 1),
+    hash: ''
+  };
+}
+
+/**
+ * 编码路径参数，重复参数的每一段分别编码
+ */
+function encodeRouteParam(value: string | Array<string | number>, repeat: boolean): string {
+  if (Array.isArray(value)) {
+    return value.map(item => encodeURIComponent(item)).join('/');
+  }
+  return repeat
+    ? value.split('/').map(item => encodeURIComponent(item)).join('/')
+    : encodeURIComponent(value);
+}
+
+/**
+ * 编译路由规则，用于匹配 url 和生成路径
+ * 
+ * 支持的语法：
+ * - `:id`：必填参数
+ * - `:id?`：可选参数
+ * - `:path*`：零个或多个路径段
+ * - `:path+`：一个或多个路径段
+ * - `*`：通配符，匹配剩余路径
+ * 
+ * @param pattern - 路由规则，如 `/users/:id/orders/:orderId?`
+ * @param options - 配置选项
+ * @param options.sensitive - 是否区分大小写，默认 `false`
+ * @param options.end - 是否需要匹配到路径末尾，默认 `true`
+ * @param options.target - 匹配的位置（`auto`、`search`、`hash`），默认 `auto`
+ * @returns 返回编译后的路由规则
+ * 
+ * @example
+ * ```typescript
+ * const orderRoute = compileRoutePattern('/users/:id/orders/:orderId?');
+ * 
+ * orderRoute.match('https://example.com/users/1/orders/2?tab=detail');
+ * // { path: '/users/1/orders/2', params: { id: '1', orderId: '2' }, query: { tab: 'detail' }, hash: '' }
+ * 
+ * orderRoute.match('http://test/#/users/1/orders');
+ * // { path: '/users/1/orders', params: { id: '1', orderId: undefined }, query: {}, hash: '' }
+ * 
+ * orderRoute.build({ id: '1', orderId: '2' }, { tab: 'detail' }); // '/users/1/orders/2?tab=detail'
+ * 
+ * compileRoutePattern('/docs/:path+').match('/docs/guide/intro')?.params; // { path: ['guide', 'intro'] }
+ * compileRoutePattern('/static/*').match('/static/js/app.js')?.params; // { '*': 'js/app.js' }
+ * ```
+ */
+export function compileRoutePattern<P extends string>(pattern: P, options: RoutePatternOptions = {}): RoutePattern<P> {
+  const tokens = parseRoutePattern(pattern);
+  const regexp = tokensToRegExp(tokens, options);
+  const paramTokens = tokens.filter(token => token.name);
+  const target = options.target || 'auto';
+
+  function match(url: string): RouteMatch<P> | null {
+    if (typeof url !== 'string') {
+      return null;
+    }
+
+    const location = resolveRouteLocation(url, target);
+    const result = regexp.exec(location.path);
+    if (!result) {
+      return null;
+    }
+
+    const params: Record<string, string | string[] | undefined> = {};
+    paramTokens.forEach((token, index) => {
+      const value = result[index + 1];
+      if (token.name !== '*' && (token.modifier === '*' || token.modifier === '+')) {
+        params[token.name!] = value === undefined ? undefined : value.split('/').map(safeDecode);
+      } else {
+        params[token.name!] = value === undefined ? undefined : safeDecode(value);
+      }
+    });
+
+    return {
+      path: result[0],
+      params: params as RouteParams<P>,
+      query: location.search ? parseQuery(`?${location.search}`) : {},
+      hash: location.hash
+    };
+  }
+
+  return {
+    pattern,
+    regexp,
+    keys: paramTokens.map(token => token.name!),
+
+    match,
+
+    test(url: string): boolean {
+      return match(url) !== null;
+    },
+
+    build(params: RouteBuildParams<P>, query?: Record<string, any>, stringifyOptions: StringifyQueryOptions = {}): string {
+      const values = (params || {}) as Record<string, string | number | Array<string | number> | undefined>;
+
+      const path = tokens
+        .map(token => {
+          if (!token.name) {
+            return `/${token.value}`;
+          }
+
+          const value = values[token.name];
+          const isEmpty = value === undefined || value === null || value === '' || (Array.isArray(value) && !value.length);
+          if (isEmpty) {
+            if (token.modifier === '' || token.modifier === '+') {
+              throw new Error(`compileRoutePattern: missing required param "${token.name}" for "${pattern}"`);
+            }
+            return '';
+          }
+
+          const repeat = token.modifier === '*' || token.modifier === '+';
+          return `/${encodeRouteParam(Array.isArray(value) ? value : String(value), repeat)}`;
+        })
+        .join('');
+
+      const search = query ? stringifyQuery(query, { ...stringifyOptions, addQueryPrefix: true }) : '';
+      return (path || '/') + search;
+    }
+  };
+}
+
+/**
+ * 编译结果缓存的最大数量，动态拼接路由规则或 SSR 长时间运行时避免缓存无限增长
+ */
+const MAX_PATTERN_CACHE_SIZE = 100;
+
+/**
+ * 编译结果缓存，利用 Map 的插入顺序实现 LRU，最久未使用的在最前面
+ */
+const patternCache = new Map<string, RoutePattern<any>>();
+
+/**
+ * 获取缓存的路由规则，避免重复编译
+ */
+function getCachedPattern<P extends string>(pattern: P, options: RoutePatternOptions): RoutePattern<P> {
+  const cacheKey = `${pattern}|${options.sensitive ? 1 : 0}|${options.end === false ? 0 : 1}|${options.target || 'auto'}`;
+  let compiled = patternCache.get(cacheKey);
+  if (compiled) {
+    // 重新插入，移动到最后
+    patternCache.delete(cacheKey);
+  } else {
+    compiled = compileRoutePattern(pattern, options);
+    if (patternCache.size >= MAX_PATTERN_CACHE_SIZE) {
+      patternCache.delete(patternCache.keys().next().value!);
+    }
+  }
+  patternCache.set(cacheKey, compiled);
+  return compiled;
+}
+
+/**
+ * 使用路由规则匹配 url 或路径，编译结果会被缓存（最多缓存最近使用的 100 个）
+ * 
+ * @param pattern - 路由规则，语法同 `compileRoutePattern`
+ * @param url - url 或路径
+ * @param options - 配置选项，同 `compileRoutePattern`
+ * @returns 返回匹配结果，不匹配时返回 null
+ * 
+ * @example
+ * ```typescript
+ * matchRoute('/users/:id', location.href)?.params.id;
+ * ```
+ */
+export function matchRoute<P extends string>(
+  pattern: P,
+  url: string,
+  options: RoutePatternOptions = {}
+): RouteMatch<P> | null {
+  return getCachedPattern(pattern, options).match(url);
+}
+
+/**
+ * 使用路由规则生成路径，编译结果会被缓存（最多缓存最近使用的 100 个）
+ * 
+ * @param pattern - 路由规则，语法同 `compileRoutePattern`
+ * @param params - 路径参数，缺少必填参数时抛出错误
+ * @param query - 查询参数
+ * @param options - 查询参数的序列化配置，同 `stringifyQuery`
+ * @returns 返回生成的路径
+ * 
+ * @example
+ * ```typescript
+ * buildRoute('/users/:id/orders/:orderId?', { id: 1 }, { page: 2 });
+ * // '/users/1/orders?page=2'
+ * 
+ * openLink(joinURL(location.origin, buildRoute('/users/:id', { id: userId })));
+ * ```
+ */
+export function buildRoute<P extends string>(
+  pattern: P,
+  params: RouteBuildParams<P>,
+  query?: Record<string, any>,
+  options?: StringifyQueryOptions
+): string {
+  return getCachedPattern(pattern, {}).build(params, query, options);
+}
@@ -0,0 +1,299 @@
+/**
+ * 序列化相关工具函数
+ * 支持任意 JavaScript 环境或框架
+ */
+
+/**
+ * 序列化器接口
+ */
+export interface StorageSerializer {
+  /**
+   * 将值序列化为字符串
+   * @param value - 需要序列化的值
+   */
+  stringify: (value: any) => string;
+  /**
+   * 将字符串反序列化为值
+   * @param text - 需要反序列化的字符串
+   */
+  parse: <T = any>(text: string) => T;
+}
+
+/**
+ * 自定义类型的序列化规则
+ */
+export interface SerializerType<T = any> {
+  /** 类型名称，写入标签中，需保证唯一 */
+  name: string;
+  /** 判断某值是否属于该类型 */
+  test: (value: unknown) => boolean;
+  /** 将该类型的值转换为可被 JSON 表示的数据 */
+  serialize: (value: T) => any;
+  /** 将数据还原为该类型的值 */
+  deserialize: (data: any) => T;
+}
+
+/**
+ * 带标签序列化器接口
+ */
+export interface TaggedSerializer extends StorageSerializer {
+  /**
+   * 注册自定义类型，同名类型会被覆盖
+   * @param type - 自定义类型的序列化规则
+   * @returns 返回序列化器本身，便于链式调用
+   */
+  register: <T>(type: SerializerType<T>) => TaggedSerializer;
+}
+
+/**
+ * 标签字段名，使用不常见的键名，避免与已有的普通 JSON 数据冲突
+ */
+const TYPE_KEY = '__nuan_type__';
+
+/**
+ * 标签值字段名
+ */
+const VALUE_KEY = '__nuan_value__';
+
+/**
+ * 内置标签值的格式校验，格式不符时按普通对象处理
+ */
+const TAG_VALUE_CHECKS: Record<string, (raw: any) => boolean> = {
+  undefined: raw => raw === undefined,
+  Number: raw => raw === 'NaN' || raw === 'Infinity' || raw === '-Infinity',
+  Map: raw => Array.isArray(raw) && raw.every(entry => Array.isArray(entry) && entry.length === 2),
+  Set: raw => Array.isArray(raw),
+  Object: raw => raw !== null && typeof raw === 'object' && !Array.isArray(raw),
+  Date: raw => raw === null || typeof raw === 'string',
+  RegExp: raw => Array.isArray(raw) && raw.length === 2 && raw.every(item => typeof item === 'string'),
+  BigInt: raw => typeof raw === 'string' && /^-?\d+$/.test(raw)
+};
+
+/**
+ * 是否是只包含标签字段和标签值字段的对象
+ */
+function isTagged(data: Record<string, any>): boolean {
+  const keys = Object.keys(data);
+  return typeof data[TYPE_KEY] === 'string'
+    && keys.length <= 2
+    && keys.every(key => key === TYPE_KEY || key === VALUE_KEY);
+}
+
+/**
+ * 内置类型的序列化规则
+ */
+const builtinTypes: SerializerType[] = [
+  {
+    name: 'Date',
+    test: value => value instanceof Date,
+    serialize: (value: Date) => (isNaN(value.getTime()) ? null : value.toISOString()),
+    deserialize: data => new Date(data === null ? NaN : data)
+  },
+  {
+    name: 'RegExp',
+    test: value => value instanceof RegExp,
+    serialize: (value: RegExp) => [value.source, value.flags],
+    deserialize: data => new RegExp(data[0], data[1])
+  },
+  {
+    name: 'BigInt',
+    test: value => typeof value === 'bigint',
+    serialize: (value: bigint) => value.toString(),
+    deserialize: data => BigInt(data)
+  }
+];
+
+/**
+ * 普通 JSON 序列化器，与 `JSON.stringify`、`JSON.parse` 行为一致
+ */
+export const jsonSerializer: StorageSerializer = {
+  stringify: value => JSON.stringify(value),
+  parse: text => JSON.parse(text)
+};
+
+/**
+ * 创建带标签的 JSON 序列化器，可以还原 `Date`、`Map`、`Set`、`BigInt`、`RegExp`、`undefined`、
+ * `NaN`、`Infinity` 以及注册的自定义类型
+ * 
+ * @param types - 自定义类型的序列化规则
+ * @returns 返回序列化器
+ * 
+ * @example
+ * ```typescript
+ * const serializer = createTaggedSerializer();
+ * const text = serializer.stringify({ date: new Date(0), ids: new Set([1, 2]) });
+ * serializer.parse(text); // { date: Date, ids: Set { 1, 2 } }
+ * 
+ * // 注册自定义类
+ * class Point {
+ *   constructor(public x: number, public y: number) {}
+ * }
+ * serializer.register<Point>({
+ *   name: 'Point',
+ *   test: value => value instanceof Point,
+ *   serialize: point => [point.x, point.y],
+ *   deserialize: ([x, y]) => new Point(x, y)
+ * });
+ * ```
+ */
+export function createTaggedSerializer(types: SerializerType[] = []): TaggedSerializer {
+  const customTypes = new Map<string, SerializerType>();
+
+  const tag = (name: string, value?: any) => (value === undefined ? { [TYPE_KEY]: name } : { [TYPE_KEY]: name, [VALUE_KEY]: value });
+
+  /**
+   * 查找值对应的类型规则，自定义类型优先
+   */
+  function findType(value: unknown): SerializerType | undefined {
+    for (const type of customTypes.values()) {
+      if (type.test(value)) {
+        return type;
+      }
+    }
+    return builtinTypes.find(type => type.test(value));
+  }
+
+  /**
+   * 将值转换为可被 JSON 表示的带标签数据
+   */
+  function encode(value: any, seen: WeakSet<object>): any {
+    if (value === undefined) {
+      return tag('undefined');
+    }
+    if (typeof value === 'number' && !isFinite(value)) {
+      return tag('Number', String(value));
+    }
+    if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+
+    const type = findType(value);
+    if (type) {
+      return tag(type.name, encode(type.serialize(value), seen));
+    }
+
+    if (typeof value !== 'object') {
+      // 函数、Symbol 与 JSON 行为一致，不进行序列化
+      return undefined;
+    }
+
+    if (seen.has(value)) {
+      throw new TypeError('Converting circular structure is not supported');
+    }
+    seen.add(value);
+
+    let result: any;
+    if (Array.isArray(value)) {
+      result = value.map(item => {
+        const encoded = encode(item, seen);
+        return encoded === undefined ? null : encoded;
+      });
+    } else if (value instanceof Map) {
+      result = tag('Map', Array.from(value.entries()).map(([k, v]) => [encode(k, seen), encode(v, seen)]));
+    } else if (value instanceof Set) {
+      result = tag('Set', Array.from(value.values()).map(item => encode(item, seen)));
+    } else if (typeof value.toJSON === 'function') {
+      result = encode(value.toJSON(), seen);
+    } else {
+      const obj: Record<string, any> = {};
+      Object.keys(value).forEach(key => {
+        const encoded = encode(value[key], seen);
+        if (encoded !== undefined) {
+          obj[key] = encoded;
+        }
+      });
+      // 本身带有标签字段的普通对象需要包装，避免被误认为带标签数据
+      result = TYPE_KEY in obj ? tag('Object', obj) : obj;
+    }
+
+    seen.delete(value);
+    return result;
+  }
+
+  /**
+   * 将带标签数据还原为值
+   */
+  function decode(data: any): any {
+    if (data === null || typeof data !== 'object') {
+      return data;
+    }
+    if (Array.isArray(data)) {
+      return data.map(decode);
+    }
+
+    if (!isTagged(data)) {
+      return decodeObject(data);
+    }
+
+    const name: string = data[TYPE_KEY];
+    const raw = data[VALUE_KEY];
+
+    const custom = customTypes.get(name);
+    if (custom) {
+      return custom.deserialize(decode(raw));
+    }
+    // 未知类型或格式不符的标签按普通对象原样返回
+    if (!TAG_VALUE_CHECKS[name] || !TAG_VALUE_CHECKS[name](raw)) {
+      return decodeObject(data);
+    }
+
+    switch (name) {
+      case 'undefined':
+        return undefined;
+      case 'Number':
+        return Number(raw);
+      case 'Map':
+        return new Map(raw.map(([k, v]: [any, any]) => [decode(k), decode(v)]));
+      case 'Set':
+        return new Set(raw.map(decode));
+      case 'Object':
+        return decodeObject(raw);
+    }
+
+    return builtinTypes.find(item => item.name === name)!.deserialize(decode(raw));
+  }
+
+  function decodeObject(data: Record<string, any>): Record<string, any> {
+    const obj: Record<string, any> = {};
+    Object.keys(data).forEach(key => {
+      obj[key] = decode(data[key]);
+    });
+    return obj;
+  }
+
+  const serializer: TaggedSerializer = {
+    stringify(value: any): string {
+      return JSON.stringify(encode(value, new WeakSet()));
+    },
+    parse<T = any>(text: string): T {
+      return decode(JSON.parse(text)) as T;
+    },
+    register<T>(type: SerializerType<T>): TaggedSerializer {
+      customTypes.set(type.name, type);
+      return serializer;
+    }
+  };
+
+  types.forEach(type => serializer.register(type));
+
+  return serializer;
+}
+
+/**
+ * 默认序列化器，Storage 相关函数未指定序列化器时使用
+ * 在此注册的自定义类型对所有使用默认序列化器的 Storage 生效
+ * 
+ * @example
+ * ```typescript
+ * defaultSerializer.register<Point>({
+ *   name: 'Point',
+ *   test: value => value instanceof Point,
+ *   serialize: point => [point.x, point.y],
+ *   deserialize: ([x, y]) => new Point(x, y)
+ * });
+ * 
+ * storageLocal().setItem('point', new Point(1, 2));
+ * storageLocal().getItem<Point>('point'); // Point { x: 1, y: 2 }
+ * ```
+ */
+export const defaultSerializer: TaggedSerializer = createTaggedSerializer();
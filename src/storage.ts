@@ -1,8 +1,80 @@
 /**
  * 本地存储相关工具函数
- * 支持任意运行在浏览器的 JavaScript 语言
+ * 支持任意运行在浏览器的 JavaScript 语言，SSR、Node.js 中可通过 `createStorage(createMemoryBackend())` 使用内存存储
  */
 
+import { defaultSerializer, type StorageSerializer } from './serializer';
+
+/**
+ * 存储后端接口，与 Web Storage API 保持一致，`window.localStorage`、`window.sessionStorage` 可直接作为后端使用
+ */
+export interface StorageBackend {
+  /** 储存的键值对数量 */
+  readonly length: number;
+  /** 获取指定索引位置的键名 */
+  key(index: number): string | null;
+  /** 获取键值，不存在时返回 null */
+  getItem(key: string): string | null;
+  /** 设置键值 */
+  setItem(key: string, value: string): void;
+  /** 删除键值 */
+  removeItem(key: string): void;
+  /** 删除所有键值 */
+  clear(): void;
+}
+
+/**
+ * setItem 配置项
+ */
+export interface StorageSetOptions {
+  /** 存活时长（毫秒），到期后读取时会被自动删除 */
+  ttl?: number;
+  /** 绝对过期时间（时间戳或 `Date`），同时传入 `ttl` 时以先到期者为准 */
+  expires?: number | Date;
+  /** 优先级，默认 `0`，使用 `priority` 淘汰策略时优先级低的对象先被淘汰 */
+  priority?: number;
+}
+
+/**
+ * 存储空间使用情况，单位为字节（按 UTF-16 编码计算）
+ */
+export interface StorageUsage {
+  /** 当前命名空间已使用的字节数 */
+  used: number;
+  /** 整个存储后端已使用的字节数 */
+  total: number;
+  /** 存储配额 */
+  quota: number;
+  /** 剩余可用的字节数 */
+  remaining: number;
+}
+
+/**
+ * 存储空间不足时的淘汰策略
+ * - `lru`：淘汰最久未访问的对象
+ * - `priority`：淘汰优先级最低的对象，优先级相同时淘汰最久未访问的对象，不会淘汰优先级高于新写入对象的对象
+ */
+export type StorageEvictionPolicy = 'lru' | 'priority';
+
+/**
+ * Storage 变化事件
+ */
+export interface StorageChangeEvent<T = any> {
+  /** 发生变化的键名（带命名空间时为去掉前缀后的键名），整个存储被清空时为 null */
+  key: string | null;
+  /** 变化后的值，被删除时为 undefined */
+  newValue: T | undefined;
+  /** 变化前的值，不存在时为 undefined */
+  oldValue: T | undefined;
+  /** 是否由其他标签页触发 */
+  external: boolean;
+}
+
+/**
+ * Storage 变化监听函数
+ */
+export type StorageListener<T = any> = (event: StorageChangeEvent<T>) => void;
+
 /**
  * Storage 接口类型
  */
@@ -11,48 +83,599 @@ export interface StorageInterface {
    * 储存对应键名的 Storage 对象
    * @param k - 键名
    * @param v - 键值
+   * @param options - 过期、优先级配置
    */
-  setItem: (k: string, v: any) => void;
+  setItem: (k: string, v: any, options?: StorageSetOptions) => void;
   /**
-   * 获取对应键名的 Storage 对象
+   * 获取对应键名的 Storage 对象，已过期的会被删除
    * @param k - 键名
-   * @returns 返回存储的值，如果不存在返回 undefined
+   * @returns 返回存储的值，如果不存在或已过期返回 undefined
    */
   getItem: <T = any>(k: string) => T | undefined;
+  /**
+   * 获取对应键名的过期时间
+   * @param k - 键名
+   * @returns 返回过期时间戳，如果不存在或未设置过期时间返回 undefined
+   */
+  getExpires: (k: string) => number | undefined;
   /**
    * 删除对应键名的 Storage 对象
    * @param k - 键名
    */
   removeItem: (k: string) => void;
   /**
-   * 删除此域的所有 Storage 对象
+   * 删除此域的所有 Storage 对象，带命名空间时只删除该命名空间下的对象
    */
   clear: () => void;
+  /**
+   * 删除所有已过期的 Storage 对象
+   * @returns 返回删除的数量
+   */
+  purgeExpired: () => number;
+  /**
+   * 获取所有键名，带命名空间时返回去掉前缀后的键名
+   * @returns 返回键名数组
+   */
+  keys: () => string[];
+  /**
+   * 储存的对象数量
+   */
+  readonly length: number;
+  /**
+   * 监听对应键名的变化，同一页面内的写入和其他标签页的写入都会触发
+   * @param key - 键名，传入 `'*'` 监听所有键
+   * @param listener - 监听函数
+   * @returns 返回取消监听的函数
+   */
+  subscribe: <T = any>(key: string, listener: StorageListener<T>) => () => void;
+  /**
+   * 获取存储空间使用情况
+   * @returns 返回存储空间使用情况
+   */
+  usage: () => StorageUsage;
 }
 
 /**
- * 创建 Storage 操作接口
+ * 异步 Storage 接口类型，用于加密存储、IndexedDB 等只能异步读写的场景
+ */
+export interface AsyncStorageInterface {
+  /**
+   * 储存对应键名的对象
+   * @param k - 键名
+   * @param v - 键值
+   * @param options - 过期、优先级配置
+   */
+  setItem: (k: string, v: any, options?: StorageSetOptions) => Promise<void>;
+  /**
+   * 获取对应键名的对象，已过期的会被删除
+   * @param k - 键名
+   * @returns 返回存储的值，如果不存在或已过期返回 undefined
+   */
+  getItem: <T = any>(k: string) => Promise<T | undefined>;
+  /**
+   * 删除对应键名的对象
+   * @param k - 键名
+   */
+  removeItem: (k: string) => Promise<void>;
+  /**
+   * 删除所有对象
+   */
+  clear: () => Promise<void>;
+  /**
+   * 获取所有键名
+   * @returns 返回键名数组
+   */
+  keys: () => Promise<string[]>;
+}
+
+/**
+ * 创建 Storage 操作接口的配置项
+ */
+export interface StorageOptions {
+  /** 命名空间，所有键名会加上 `${prefix}:` 前缀；包含 `:` 时（如 `app:sub`）会被 `app` 命名空间的 `clear()`、`keys()` 包含在内 */
+  prefix?: string;
+  /** 序列化器，默认为可还原 `Date`、`Map`、`Set` 等类型的 `defaultSerializer` */
+  serializer?: StorageSerializer;
+  /** 存储配额（字节），设置后写入超出配额时视为空间不足，默认按浏览器常见的 5MB 计算剩余空间 */
+  quota?: number;
+  /** 存储空间不足时的淘汰策略，只会淘汰当前命名空间下通过本工具写入的对象，默认不淘汰 */
+  eviction?: StorageEvictionPolicy;
+}
+
+/**
+ * 默认存储配额，浏览器 localStorage 通常为 5MB
+ */
+const DEFAULT_QUOTA = 5 * 1024 * 1024;
+
+/**
+ * LRU 淘汰时访问时间的更新间隔（毫秒），避免每次读取都写入存储并触发其他标签页的 `storage` 事件
+ */
+const LRU_TOUCH_INTERVAL = 60 * 1000;
+
+/**
+ * 带元数据的值在 Storage 中的包装标记
+ */
+const RECORD_FLAG = '__nuan__';
+
+/**
+ * 带元数据（过期时间、优先级、访问时间）的值在 Storage 中的包装结构
+ */
+interface StorageRecord {
+  [RECORD_FLAG]: 1;
+  value: any;
+  expires?: number;
+  priority?: number;
+  accessed?: number;
+}
+
+function isStorageRecord(val: any): val is StorageRecord {
+  return val !== null && typeof val === 'object' && val[RECORD_FLAG] === 1;
+}
+
+/**
+ * 根据配置计算过期时间戳
+ * 
+ * @param options - 过期配置
+ * @returns 返回过期时间戳，未设置过期时间返回 undefined
+ */
+export function resolveExpires(options?: StorageSetOptions): number | undefined {
+  if (!options) {
+    return undefined;
+  }
+
+  const candidates: number[] = [];
+  if (typeof options.ttl === 'number') {
+    candidates.push(Date.now() + options.ttl);
+  }
+  if (options.expires !== undefined) {
+    candidates.push(options.expires instanceof Date ? options.expires.getTime() : options.expires);
+  }
+
+  return candidates.length ? Math.min(...candidates) : undefined;
+}
+
+function isExpired(record: StorageRecord, now: number = Date.now()): boolean {
+  return record.expires !== undefined && record.expires <= now;
+}
+
+/**
+ * 计算键值对占用的字节数，Web Storage 以 UTF-16 储存字符串
+ */
+function getEntrySize(key: string, value: string): number {
+  return (key.length + value.length) * 2;
+}
+
+/**
+ * 是否是存储空间不足的错误
+ */
+function isQuotaExceededError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+  const { name, code } = error as { name?: string; code?: number };
+  // 22：大部分浏览器，1014：Firefox
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
+
+function createQuotaExceededError(quota: number): Error {
+  const error = new Error(`The quota of ${quota} bytes has been exceeded`);
+  error.name = 'QuotaExceededError';
+  return error;
+}
+
+/**
+ * 存储后端原始变化的处理函数
+ */
+type RawChangeHandler = (rawKey: string | null, oldRaw: string | null, newRaw: string | null, external: boolean) => void;
+
+/**
+ * 每个存储后端对应的变化处理函数，同一后端的多个 Storage 操作接口共享
+ */
+const changeHandlers = new WeakMap<StorageBackend, Set<RawChangeHandler>>();
+
+/**
+ * 每个存储后端对应的 `storage` 事件监听函数
+ */
+const storageEventListeners = new WeakMap<StorageBackend, (event: StorageEvent) => void>();
+
+/**
+ * 添加存储后端的变化处理函数，首次添加时开始监听其他标签页触发的 `storage` 事件
  */
-function createStorage(storage: Storage | null): StorageInterface {
-  if (!storage) {
-    console.warn('Storage is not available in this environment');
-    // 返回一个空实现，避免运行时错误
-    return {
-      setItem: () => {},
-      getItem: () => undefined,
-      removeItem: () => {},
-      clear: () => {}
+function addChangeHandler(backend: StorageBackend, handler: RawChangeHandler): () => void {
+  let handlers = changeHandlers.get(backend);
+  if (!handlers) {
+    handlers = new Set();
+    changeHandlers.set(backend, handlers);
+  }
+  handlers.add(handler);
+
+  if (!storageEventListeners.has(backend) && typeof window !== 'undefined' && window.addEventListener) {
+    const listener = (event: StorageEvent) => {
+      if (event.storageArea === backend) {
+        emitChange(backend, event.key, event.oldValue, event.newValue, true);
+      }
     };
+    window.addEventListener('storage', listener);
+    storageEventListeners.set(backend, listener);
+  }
+
+  return () => {
+    handlers!.delete(handler);
+    if (handlers!.size === 0) {
+      const listener = storageEventListeners.get(backend);
+      if (listener) {
+        window.removeEventListener('storage', listener);
+        storageEventListeners.delete(backend);
+      }
+    }
+  };
+}
+
+function hasChangeHandlers(backend: StorageBackend): boolean {
+  const handlers = changeHandlers.get(backend);
+  return !!handlers && handlers.size > 0;
+}
+
+/**
+ * 通知存储后端的所有变化处理函数
+ */
+function emitChange(
+  backend: StorageBackend,
+  rawKey: string | null,
+  oldRaw: string | null,
+  newRaw: string | null,
+  external: boolean = false
+): void {
+  const handlers = changeHandlers.get(backend);
+  if (!handlers || (rawKey !== null && oldRaw === newRaw)) {
+    return;
+  }
+
+  Array.from(handlers).forEach(handler => {
+    try {
+      handler(rawKey, oldRaw, newRaw, external);
+    } catch (error) {
+      console.error(`storage.subscribe listener error:`, error);
+    }
+  });
+}
+
+/**
+ * 创建基于内存的存储后端，可用于 SSR、Node.js 及测试环境
+ * 
+ * @returns 返回存储后端
+ * 
+ * @example
+ * ```typescript
+ * const storage = createStorage(createMemoryBackend());
+ * storage.setItem('info', { name: 'xiaoming' });
+ * ```
+ */
+export function createMemoryBackend(): StorageBackend {
+  const data = new Map<string, string>();
+
+  return {
+    get length(): number {
+      return data.size;
+    },
+    key(index: number): string | null {
+      return Array.from(data.keys())[index] ?? null;
+    },
+    getItem(key: string): string | null {
+      return data.has(key) ? data.get(key)! : null;
+    },
+    setItem(key: string, value: string): void {
+      data.set(key, String(value));
+    },
+    removeItem(key: string): void {
+      data.delete(key);
+    },
+    clear(): void {
+      data.clear();
+    }
+  };
+}
+
+/**
+ * 创建 Storage 操作接口
+ * 
+ * @param storage - 存储后端，如 `window.localStorage`、`createMemoryBackend()`、`createFileBackend()`
+ * @param options - 配置选项
+ * @param options.prefix - 命名空间，所有键名会加上 `${prefix}:` 前缀
+ * @param options.serializer - 序列化器，默认为 `defaultSerializer`
+ * @param options.quota - 存储配额（字节），设置后写入超出配额时视为空间不足
+ * @param options.eviction - 存储空间不足时的淘汰策略（`lru`、`priority`），默认不淘汰
+ * @returns 返回 Storage 操作接口
+ * 
+ * @example
+ * ```typescript
+ * // 内存存储
+ * const memory = createStorage(createMemoryBackend());
+ * 
+ * // 带命名空间的 localStorage
+ * const local = createStorage(window.localStorage, { prefix: 'my-app' });
+ * 
+ * // 使用普通 JSON 序列化
+ * const plain = createStorage(window.localStorage, { serializer: jsonSerializer });
+ * 
+ * // 空间不足时按优先级淘汰缓存
+ * const cache = createStorage(window.localStorage, { prefix: 'cache', eviction: 'priority' });
+ * cache.setItem('dict', dict, { priority: 10 });
+ * cache.usage(); // { used: 2048, total: 4096, quota: 5242880, remaining: 5238784 }
+ * ```
+ */
+export function createStorage(storage: StorageBackend, options: StorageOptions = {}): StorageInterface {
+  const keyPrefix = options.prefix ? `${options.prefix}:` : '';
+  const serializer = options.serializer || defaultSerializer;
+  const { quota, eviction } = options;
+
+  /**
+   * 获取加上命名空间前缀后的真实键名
+   */
+  function toRawKey(k: string): string {
+    return keyPrefix + k;
+  }
+
+  /**
+   * 获取当前命名空间下的所有真实键名
+   */
+  function rawKeys(): string[] {
+    // 先收集键名，避免边遍历边删除导致索引错位
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key !== null && key.startsWith(keyPrefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * 读取并解析原始值，已过期的会被删除
+   */
+  function readRecord(rawKey: string): StorageRecord | undefined {
+    const raw = storage.getItem(rawKey);
+    if (raw === null) {
+      return undefined;
+    }
+
+    const parsed = serializer.parse(raw);
+    if (!isStorageRecord(parsed)) {
+      return { [RECORD_FLAG]: 1, value: parsed };
+    }
+    if (isExpired(parsed)) {
+      // 通过 writeRaw 删除，过期删除也会通知监听函数
+      writeRaw(rawKey, null);
+      return undefined;
+    }
+    if (eviction === 'lru') {
+      touchRecord(rawKey, parsed);
+    }
+    return parsed;
+  }
+
+  /**
+   * 更新对象的访问时间，用于 LRU 淘汰，距上次更新不足 `LRU_TOUCH_INTERVAL` 时跳过
+   */
+  function touchRecord(rawKey: string, record: StorageRecord): void {
+    const now = Date.now();
+    if (record.accessed !== undefined && now - record.accessed < LRU_TOUCH_INTERVAL) {
+      return;
+    }
+    try {
+      storage.setItem(rawKey, serializer.stringify({ ...record, accessed: now }));
+    } catch {
+      // 访问时间更新失败不影响读取
+    }
+  }
+
+  /**
+   * 删除当前命名空间下所有已过期的对象
+   */
+  function removeExpired(): number {
+    let count = 0;
+    const now = Date.now();
+
+    for (const key of rawKeys()) {
+      const raw = storage.getItem(key);
+      if (raw === null) {
+        continue;
+      }
+      let parsed: any;
+      try {
+        parsed = serializer.parse(raw);
+      } catch {
+        // 非本工具写入的值，跳过
+        continue;
+      }
+      if (isStorageRecord(parsed) && isExpired(parsed, now)) {
+        writeRaw(key, null);
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * 按淘汰策略删除当前命名空间下的一个对象
+   * @returns 是否有对象被删除
+   */
+  function evictOne(excludeKey: string, priority: number): boolean {
+    if (removeExpired() > 0) {
+      return true;
+    }
+
+    const candidates: Array<{ key: string; priority: number; accessed: number }> = [];
+    for (const key of rawKeys()) {
+      if (key === excludeKey) {
+        continue;
+      }
+      const raw = storage.getItem(key);
+      if (raw === null) {
+        continue;
+      }
+      let parsed: any;
+      try {
+        parsed = serializer.parse(raw);
+      } catch {
+        continue;
+      }
+      // 只淘汰本工具写入的带元数据的对象，未带命名空间时同一后端中其他应用的数据不参与淘汰
+      if (isStorageRecord(parsed)) {
+        candidates.push({ key, priority: parsed.priority ?? 0, accessed: parsed.accessed ?? 0 });
+      }
+    }
+
+    const victims = eviction === 'priority'
+      ? candidates
+        .filter(item => item.priority <= priority)
+        .sort((a, b) => a.priority - b.priority || a.accessed - b.accessed)
+      : candidates.sort((a, b) => a.accessed - b.accessed);
+
+    if (!victims.length) {
+      return false;
+    }
+    writeRaw(victims[0].key, null);
+    return true;
+  }
+
+  /**
+   * 计算写入后整个存储后端是否会超出配额
+   */
+  function exceedsQuota(rawKey: string, raw: string): boolean {
+    if (quota === undefined) {
+      return false;
+    }
+    const oldRaw = storage.getItem(rawKey);
+    const total = getUsage().total
+      - (oldRaw === null ? 0 : getEntrySize(rawKey, oldRaw))
+      + getEntrySize(rawKey, raw);
+    return total > quota;
+  }
+
+  /**
+   * 写入对象，空间不足时按淘汰策略删除对象后重试
+   */
+  function writeWithEviction(rawKey: string, raw: string, priority: number): void {
+    for (;;) {
+      try {
+        if (exceedsQuota(rawKey, raw)) {
+          throw createQuotaExceededError(quota!);
+        }
+        writeRaw(rawKey, raw);
+        return;
+      } catch (error) {
+        if (!eviction || !isQuotaExceededError(error) || !evictOne(rawKey, priority)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  function getUsage(): StorageUsage {
+    let used = 0;
+    let total = 0;
+
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key === null) {
+        continue;
+      }
+      const size = getEntrySize(key, storage.getItem(key) ?? '');
+      total += size;
+      if (key.startsWith(keyPrefix)) {
+        used += size;
+      }
+    }
+
+    const limit = quota ?? DEFAULT_QUOTA;
+    return { used, total, quota: limit, remaining: Math.max(limit - total, 0) };
+  }
+
+  /**
+   * 将原始字符串解析为值，已过期或无法解析时返回 undefined
+   */
+  function decodeRaw(raw: string | null): any {
+    if (raw === null) {
+      return undefined;
+    }
+    try {
+      const parsed = serializer.parse(raw);
+      if (!isStorageRecord(parsed)) {
+        return parsed;
+      }
+      return isExpired(parsed) ? undefined : parsed.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 两个原始字符串解析后的值是否相同，只有访问时间等元数据不同时视为相同
+   */
+  function isSameValue(oldRaw: string | null, newRaw: string | null): boolean {
+    if (oldRaw === null || newRaw === null) {
+      return oldRaw === newRaw;
+    }
+    try {
+      return serializer.stringify(decodeRaw(oldRaw)) === serializer.stringify(decodeRaw(newRaw));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 写入或删除真实键名对应的值，并通知监听函数
+   */
+  function writeRaw(rawKey: string, raw: string | null): void {
+    const oldRaw = hasChangeHandlers(storage) ? storage.getItem(rawKey) : null;
+    if (raw === null) {
+      storage.removeItem(rawKey);
+    } else {
+      storage.setItem(rawKey, raw);
+    }
+    emitChange(storage, rawKey, oldRaw, raw);
+  }
+
+  function keys(): string[] {
+    try {
+      return rawKeys().map(key => key.slice(keyPrefix.length));
+    } catch (error) {
+      console.error(`storage.keys error:`, error);
+      return [];
+    }
   }
 
   return {
     /**
      * 储存对应键名的 Storage 对象
      */
-    setItem(k: string, v: any): void {
+    setItem(k: string, v: any, options?: StorageSetOptions): void {
       try {
-        const value = JSON.stringify(v);
-        storage.setItem(k, value);
+        const expires = resolveExpires(options);
+        const priority = options?.priority;
+        let value: string;
+        // 值本身与包装结构相同时也需要包装，否则读取时会被误认为包装结构
+        if (expires === undefined && priority === undefined && !eviction && !isStorageRecord(v)) {
+          // 没有元数据时直接储存原值，与普通 JSON 数据保持兼容
+          value = serializer.stringify(v);
+        } else {
+          // 只写入有值的元数据，避免序列化器将 undefined 写为占位对象浪费存储空间
+          const record: StorageRecord = { [RECORD_FLAG]: 1, value: v };
+          if (expires !== undefined) {
+            record.expires = expires;
+          }
+          if (priority !== undefined) {
+            record.priority = priority;
+          }
+          if (eviction) {
+            record.accessed = Date.now();
+          }
+          value = serializer.stringify(record);
+        }
+        writeWithEviction(toRawKey(k), value, priority ?? 0);
       } catch (error) {
         console.error(`storage.setItem error:`, error);
       }
@@ -63,43 +686,175 @@ function createStorage(storage: Storage | null): StorageInterface {
      */
     getItem<T = any>(k: string): T | undefined {
       try {
-        const value = storage.getItem(k);
-        if (value === null) {
-          return undefined;
-        }
-        return JSON.parse(value) as T;
+        return readRecord(toRawKey(k))?.value as T | undefined;
       } catch (error) {
         console.error(`storage.getItem error:`, error);
         return undefined;
       }
     },
 
+    /**
+     * 获取对应键名的过期时间
+     */
+    getExpires(k: string): number | undefined {
+      try {
+        return readRecord(toRawKey(k))?.expires;
+      } catch (error) {
+        console.error(`storage.getExpires error:`, error);
+        return undefined;
+      }
+    },
+
     /**
      * 删除对应键名的 Storage 对象
      */
     removeItem(k: string): void {
       try {
-        storage.removeItem(k);
+        writeRaw(toRawKey(k), null);
       } catch (error) {
         console.error(`storage.removeItem error:`, error);
       }
     },
 
     /**
-     * 删除此域的所有 Storage 对象
+     * 删除此域的所有 Storage 对象，带命名空间时只删除该命名空间下的对象
      */
     clear(): void {
       try {
-        storage.clear();
+        if (keyPrefix) {
+          rawKeys().forEach(key => writeRaw(key, null));
+        } else {
+          storage.clear();
+          emitChange(storage, null, null, null);
+        }
       } catch (error) {
         console.error(`storage.clear error:`, error);
       }
+    },
+
+    /**
+     * 删除所有已过期的 Storage 对象
+     */
+    purgeExpired(): number {
+      try {
+        return removeExpired();
+      } catch (error) {
+        console.error(`storage.purgeExpired error:`, error);
+        return 0;
+      }
+    },
+
+    /**
+     * 获取所有键名
+     */
+    keys,
+
+    /**
+     * 储存的对象数量
+     */
+    get length(): number {
+      return keys().length;
+    },
+
+    /**
+     * 监听对应键名的变化
+     */
+    subscribe<T = any>(key: string, listener: StorageListener<T>): () => void {
+      return addChangeHandler(storage, (rawKey, oldRaw, newRaw, external) => {
+        if (rawKey === null) {
+          listener({ key: null, newValue: undefined, oldValue: undefined, external });
+          return;
+        }
+        if (!rawKey.startsWith(keyPrefix)) {
+          return;
+        }
+
+        const changedKey = rawKey.slice(keyPrefix.length);
+        if (key !== '*' && key !== changedKey) {
+          return;
+        }
+        // 值未变化（如只更新了访问时间）时不通知
+        if (isSameValue(oldRaw, newRaw)) {
+          return;
+        }
+
+        listener({
+          key: changedKey,
+          newValue: decodeRaw(newRaw),
+          oldValue: decodeRaw(oldRaw),
+          external
+        });
+      });
+    },
+
+    /**
+     * 获取存储空间使用情况
+     */
+    usage(): StorageUsage {
+      try {
+        return getUsage();
+      } catch (error) {
+        console.error(`storage.usage error:`, error);
+        const limit = quota ?? DEFAULT_QUOTA;
+        return { used: 0, total: 0, quota: limit, remaining: limit };
+      }
     }
   };
 }
 
 /**
- * 处理 `localStorage`
+ * 浏览器禁用 Web Storage 时使用的内存后端，同一页面内共享，保证多次调用读写的是同一份数据
+ */
+const fallbackBackends: Partial<Record<'localStorage' | 'sessionStorage', StorageBackend>> = {};
+
+/**
+ * 空实现的存储后端，写入的数据会被丢弃
+ */
+const noopBackend: StorageBackend = {
+  length: 0,
+  key: () => null,
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {},
+  clear: () => {}
+};
+
+/**
+ * 非浏览器环境下是否已提示过
+ */
+const serverWarned: Partial<Record<'localStorage' | 'sessionStorage', boolean>> = {};
+
+/**
+ * 获取浏览器的 Web Storage
+ * - 非浏览器环境（SSR、Node.js）返回空实现，避免同一进程内不同请求（用户）之间共享数据，需要真实读写时使用 `createStorage(createMemoryBackend())`
+ * - 浏览器中被禁用时降级为内存后端
+ */
+function resolveWebStorage(type: 'localStorage' | 'sessionStorage'): StorageBackend {
+  if (typeof window === 'undefined') {
+    if (!serverWarned[type]) {
+      console.warn(`${type} is not available in this environment, writes will be discarded. Use createStorage(createMemoryBackend()) instead`);
+      serverWarned[type] = true;
+    }
+    return noopBackend;
+  }
+
+  try {
+    if (window[type]) {
+      return window[type];
+    }
+  } catch {
+    // 部分浏览器禁用存储时访问 window.localStorage 会抛出 SecurityError
+  }
+
+  if (!fallbackBackends[type]) {
+    console.warn(`${type} is not available in this environment, falling back to in-memory storage`);
+    fallbackBackends[type] = createMemoryBackend();
+  }
+  return fallbackBackends[type]!;
+}
+
+/**
+ * 处理 `localStorage`，浏览器禁用存储时降级为内存存储，非浏览器环境下为空实现
  * 
  * @returns 返回 Storage 操作接口
  * 
@@ -115,6 +870,22 @@ function createStorage(storage: Storage | null): StorageInterface {
  * }
  * const info = storageLocal().getItem<StorageConfigs>('info');
  * 
+ * // 储存 2 小时后过期的对象
+ * storageLocal().setItem('token', 'xxx', { ttl: 2 * 60 * 60 * 1000 });
+ * 
+ * // 储存在指定时间过期的对象
+ * storageLocal().setItem('dict', { a: 1 }, { expires: new Date('2030-01-01') });
+ * 
+ * // 清理所有已过期的对象
+ * storageLocal().purgeExpired();
+ * 
+ * // 监听变化（包括其他标签页的修改）
+ * const unsubscribe = storageLocal().subscribe<string>('token', ({ newValue }) => {
+ *   if (newValue === undefined) {
+ *     // 已在其他标签页退出登录
+ *   }
+ * });
+ * 
  * // 删除对象
  * storageLocal().removeItem('info');
  * 
@@ -123,16 +894,11 @@ function createStorage(storage: Storage | null): StorageInterface {
  * ```
  */
 export function storageLocal(): StorageInterface {
-  if (typeof window === 'undefined') {
-    console.warn('storageLocal: window is not available, this function only works in browser environment');
-    return createStorage(null);
-  }
-
-  return createStorage(window.localStorage);
+  return createStorage(resolveWebStorage('localStorage'));
 }
 
 /**
- * 处理 `sessionStorage`
+ * 处理 `sessionStorage`，浏览器禁用存储时降级为内存存储，非浏览器环境下为空实现
  * 
  * @returns 返回 Storage 操作接口
  * 
@@ -148,6 +914,9 @@ export function storageLocal(): StorageInterface {
  * }
  * const info = storageSession().getItem<StorageConfigs>('info');
  * 
+ * // 储存 30 分钟后过期的对象
+ * storageSession().setItem('captcha', 'abcd', { ttl: 30 * 60 * 1000 });
+ * 
  * // 删除对象
  * storageSession().removeItem('info');
  * 
@@ -156,11 +925,38 @@ export function storageLocal(): StorageInterface {
  * ```
  */
 export function storageSession(): StorageInterface {
-  if (typeof window === 'undefined') {
-    console.warn('storageSession: window is not available, this function only works in browser environment');
-    return createStorage(null);
+  return createStorage(resolveWebStorage('sessionStorage'));
+}
+
+/**
+ * 创建带命名空间的 Storage 操作接口，所有操作只影响该命名空间下的键
+ * 
+ * @param prefix - 命名空间，实际键名为 `${prefix}:${key}`，不能为空，也不能包含 `:`（否则 `app` 的 `clear()`、`keys()` 会影响到 `app:sub` 命名空间）
+ * @param backend - 存储后端，如 `window.localStorage`、`createMemoryBackend()`
+ * @returns 返回 Storage 操作接口
+ * 
+ * @example
+ * ```typescript
+ * const appStorage = createNamespacedStorage('my-app', window.localStorage);
+ * 
+ * // 实际写入的键名为 'my-app:token'
+ * appStorage.setItem('token', 'xxx');
+ * 
+ * appStorage.keys(); // ['token']
+ * appStorage.length; // 1
+ * 
+ * // 只删除 'my-app:' 开头的键，不影响同域下其他应用的数据
+ * appStorage.clear();
+ * ```
+ */
+export function createNamespacedStorage(prefix: string, backend: StorageBackend): StorageInterface {
+  // 空命名空间的 clear() 会清空整个存储后端
+  if (!prefix) {
+    throw new Error('createNamespacedStorage: prefix is required');
+  }
+  if (prefix.includes(':')) {
+    throw new Error(`createNamespacedStorage: prefix "${prefix}" must not contain ":"`);
   }
 
-  return createStorage(window.sessionStorage);
+  return createStorage(backend, { prefix });
 }
-
@@ -0,0 +1,302 @@
+/**
+ * 加密存储相关工具函数
+ * 支持任意提供 Web Crypto API 的 JavaScript 环境（现代浏览器、Node.js 15+）
+ */
+
+import { defaultSerializer, type StorageSerializer } from './serializer';
+import type { AsyncStorageInterface, StorageInterface, StorageSetOptions } from './storage';
+
+/**
+ * 加密密钥，可以是 AES-GCM 的 `CryptoKey`，也可以是口令字符串（通过 PBKDF2 派生密钥）
+ */
+export type EncryptionKey = CryptoKey | string;
+
+/**
+ * 加密存储配置项
+ */
+export interface EncryptedStorageOptions {
+  /** 当前使用的密钥，新写入的值都使用此密钥加密 */
+  key: EncryptionKey;
+  /** 历史密钥，读取时依次尝试解密，解密成功后会使用当前密钥重新加密 */
+  previousKeys?: EncryptionKey[];
+  /** 口令派生密钥时使用的盐，默认 `nuan-utils` */
+  salt?: string;
+  /** 口令派生密钥时的迭代次数，默认 `100000` */
+  iterations?: number;
+  /** 序列化器，默认为 `defaultSerializer` */
+  serializer?: StorageSerializer;
+  /** 自定义 Web Crypto 实现，默认使用 `globalThis.crypto`，Node.js 中降级为 `crypto.webcrypto` */
+  crypto?: Crypto;
+  /** 密文解密失败时是否删除该值，默认 `false`，不是密文格式的值不会被删除 */
+  removeUndecryptable?: boolean;
+  /** 解密失败时的回调 */
+  onDecryptError?: (key: string, error: unknown) => void;
+}
+
+/**
+ * 加密存储接口类型
+ */
+export interface EncryptedStorageInterface extends AsyncStorageInterface {
+  /**
+   * 使用当前密钥重新加密所有由历史密钥加密的值
+   * @returns 返回重新加密的数量
+   */
+  rotate: () => Promise<number>;
+}
+
+/**
+ * 密文格式版本，写入在密文前缀中，便于以后升级加密格式
+ */
+const PAYLOAD_VERSION = 'v1';
+
+/**
+ * AES-GCM 推荐的 IV 长度（字节）
+ */
+const IV_LENGTH = 12;
+
+/**
+ * 获取 Web Crypto 实现
+ */
+async function resolveCrypto(custom?: Crypto): Promise<Crypto> {
+  if (custom) {
+    return custom;
+  }
+  if (typeof globalThis !== 'undefined' && globalThis.crypto && globalThis.crypto.subtle) {
+    return globalThis.crypto;
+  }
+
+  try {
+    const nodeCrypto = await import('crypto');
+    if (nodeCrypto.webcrypto) {
+      return nodeCrypto.webcrypto as unknown as Crypto;
+    }
+  } catch {
+    // 非 Node.js 环境
+  }
+
+  throw new Error('Web Crypto API is not available in this environment');
+}
+
+/**
+ * 是否是本工具写入的密文（`v1.<iv>.<data>`），其他格式的值不会被解密、删除或报告
+ */
+function isEncryptedPayload(payload: unknown): payload is string {
+  return typeof payload === 'string'
+    && payload.startsWith(`${PAYLOAD_VERSION}.`)
+    && payload.split('.').length === 3;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 将口令派生为 AES-GCM 密钥
+ */
+async function deriveKey(crypto: Crypto, passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 创建加密存储，值在写入前使用 AES-GCM 加密，支持密钥轮换
+ * 
+ * `keys`、`clear`、`rotate` 只处理 `v1.` 开头的密文，不会解密、删除或报告其他格式的值；
+ * 但不同密钥的加密存储共用同一底层存储时无法区分彼此的密文，强烈建议使用 `createNamespacedStorage()` 隔离
+ * 
+ * @param storage - 底层 Storage 操作接口，推荐使用 `createNamespacedStorage()`
+ * @param options - 配置选项
+ * @param options.key - 当前使用的密钥（`CryptoKey` 或口令字符串）
+ * @param options.previousKeys - 历史密钥，用于解密旧数据
+ * @param options.removeUndecryptable - 解密失败时是否删除该值，默认 `false`
+ * @param options.onDecryptError - 解密失败时的回调
+ * @returns 返回异步的加密存储接口
+ * 
+ * @example
+ * ```typescript
+ * const secure = createEncryptedStorage(createNamespacedStorage('secure', window.localStorage), { key: 'my-passphrase' });
+ * 
+ * await secure.setItem('profile', { name: 'xiaoming', phone: '13800000000' }, { ttl: 24 * 60 * 60 * 1000 });
+ * const profile = await secure.getItem<{ name: string; phone: string }>('profile');
+ * 
+ * // 密钥轮换：旧数据读取时自动使用新密钥重新加密，也可以调用 rotate 一次性迁移
+ * const rotated = createEncryptedStorage(createNamespacedStorage('secure', window.localStorage), {
+ *   key: 'new-passphrase',
+ *   previousKeys: ['my-passphrase']
+ * });
+ * await rotated.rotate();
+ * ```
+ */
+export function createEncryptedStorage(
+  storage: StorageInterface,
+  options: EncryptedStorageOptions
+): EncryptedStorageInterface {
+  const {
+    salt = 'nuan-utils',
+    iterations = 100000,
+    serializer = defaultSerializer,
+    removeUndecryptable = false,
+    onDecryptError
+  } = options;
+
+  let keysPromise: Promise<{ crypto: Crypto; keys: CryptoKey[] }> | null = null;
+
+  /**
+   * 获取 Web Crypto 实现及所有密钥（当前密钥在第一位），只派生一次
+   */
+  function getKeys(): Promise<{ crypto: Crypto; keys: CryptoKey[] }> {
+    if (!keysPromise) {
+      keysPromise = (async () => {
+        const crypto = await resolveCrypto(options.crypto);
+        const keys = await Promise.all(
+          [options.key, ...(options.previousKeys || [])].map(key =>
+            typeof key === 'string' ? deriveKey(crypto, key, salt, iterations) : key
+          )
+        );
+        return { crypto, keys };
+      })();
+      // 失败后允许重试
+      keysPromise.catch(() => {
+        keysPromise = null;
+      });
+    }
+    return keysPromise;
+  }
+
+  async function encrypt(value: any): Promise<string> {
+    const { crypto, keys } = await getKeys();
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const data = new TextEncoder().encode(serializer.stringify(value));
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, keys[0], data);
+
+    return `${PAYLOAD_VERSION}.${bytesToBase64(iv)}.${bytesToBase64(new Uint8Array(cipher))}`;
+  }
+
+  /**
+   * 依次使用所有密钥尝试解密
+   * @returns 返回解密后的值及所用密钥的索引
+   */
+  async function decrypt(payload: string): Promise<{ value: any; keyIndex: number }> {
+    const [, iv, data] = payload.split('.');
+    if (!iv || !data) {
+      throw new Error('Invalid encrypted payload');
+    }
+
+    const { crypto, keys } = await getKeys();
+    let lastError: unknown;
+
+    for (let i = 0; i < keys.length; i++) {
+      try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, keys[i], base64ToBytes(data));
+        return { value: serializer.parse(new TextDecoder().decode(plain)), keyIndex: i };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * 使用当前密钥重新加密，保留原有的过期时间
+   */
+  async function reencrypt(k: string, value: any): Promise<void> {
+    storage.setItem(k, await encrypt(value), { expires: storage.getExpires(k) });
+  }
+
+  /**
+   * 获取保存密文的键名，跳过同一存储中其他格式的值
+   */
+  function ownKeys(): string[] {
+    return storage.keys().filter(k => isEncryptedPayload(storage.getItem(k)));
+  }
+
+  /**
+   * 读取并解密，解密失败时返回 undefined
+   * @returns 返回解密结果，值不存在、不是密文或解密失败时返回 undefined
+   */
+  async function read(k: string): Promise<{ value: any; keyIndex: number } | undefined> {
+    const payload = storage.getItem(k);
+    if (!isEncryptedPayload(payload)) {
+      return undefined;
+    }
+
+    try {
+      return await decrypt(payload);
+    } catch (error) {
+      if (onDecryptError) {
+        onDecryptError(k, error);
+      } else {
+        console.warn(`encryptedStorage: failed to decrypt "${k}"`, error);
+      }
+      if (removeUndecryptable) {
+        storage.removeItem(k);
+      }
+      return undefined;
+    }
+  }
+
+  return {
+    async setItem(k: string, v: any, setOptions?: StorageSetOptions): Promise<void> {
+      storage.setItem(k, await encrypt(v), setOptions);
+    },
+
+    async getItem<T = any>(k: string): Promise<T | undefined> {
+      const result = await read(k);
+      if (!result) {
+        return undefined;
+      }
+      if (result.keyIndex > 0) {
+        await reencrypt(k, result.value);
+      }
+      return result.value as T;
+    },
+
+    async removeItem(k: string): Promise<void> {
+      storage.removeItem(k);
+    },
+
+    async clear(): Promise<void> {
+      ownKeys().forEach(k => storage.removeItem(k));
+    },
+
+    async keys(): Promise<string[]> {
+      return ownKeys();
+    },
+
+    async rotate(): Promise<number> {
+      let count = 0;
+
+      for (const k of ownKeys()) {
+        const result = await read(k);
+        if (result && result.keyIndex > 0) {
+          await reencrypt(k, result.value);
+          count++;
+        }
+      }
+
+      return count;
+    }
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * 基于 JSON 文件的存储后端
+ * 支持任意运行在 Node 的 JavaScript 语言
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { StorageBackend } from './storage';
+
+/**
+ * 读取 JSON 文件中已有的数据
+ */
+function readFileData(filePath: string): Map<string, string> {
+  const data = new Map<string, string>();
+
+  try {
+    if (!fs.existsSync(filePath)) {
+      return data;
+    }
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    if (!content.trim()) {
+      return data;
+    }
+
+    const json = JSON.parse(content);
+    Object.keys(json).forEach(key => {
+      if (typeof json[key] === 'string') {
+        data.set(key, json[key]);
+      }
+    });
+  } catch (error) {
+    console.warn(`createFileBackend: Error reading ${filePath}:`, error);
+  }
+
+  return data;
+}
+
+/**
+ * 创建基于 JSON 文件的存储后端，每次写入都会同步落盘
+ * 
+ * @param filePath - JSON 文件路径，相对路径基于 `process.cwd()`，文件不存在时会自动创建
+ * @returns 返回存储后端
+ * 
+ * @example
+ * ```typescript
+ * import { createStorage, createFileBackend } from '@nuan/utils';
+ * 
+ * const storage = createStorage(createFileBackend('.cache/storage.json'));
+ * storage.setItem('token', 'xxx', { ttl: 60 * 1000 });
+ * storage.getItem('token'); // 'xxx'
+ * ```
+ */
+export function createFileBackend(filePath: string): StorageBackend {
+  const absolutePath = path.resolve(process.cwd(), filePath);
+  const data = readFileData(absolutePath);
+
+  /**
+   * 将当前数据写入文件
+   */
+  function flush(): void {
+    fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+    fs.writeFileSync(absolutePath, JSON.stringify(Object.fromEntries(data), null, 2), 'utf-8');
+  }
+
+  return {
+    get length(): number {
+      return data.size;
+    },
+    key(index: number): string | null {
+      return Array.from(data.keys())[index] ?? null;
+    },
+    getItem(key: string): string | null {
+      return data.has(key) ? data.get(key)! : null;
+    },
+    setItem(key: string, value: string): void {
+      data.set(key, String(value));
+      flush();
+    },
+    removeItem(key: string): void {
+      if (data.delete(key)) {
+        flush();
+      }
+    },
+    clear(): void {
+      data.clear();
+      flush();
+    }
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * IndexedDB 存储相关工具函数
+ * 支持任意运行在浏览器的 JavaScript 语言，Node.js 中可传入 fake-indexeddb 等实现
+ */
+
+import { resolveExpires, type AsyncStorageInterface, type StorageSetOptions } from './storage';
+
+/**
+ * IndexedDB 存储配置项
+ */
+export interface IndexedStorageOptions {
+  /** 自定义 IndexedDB 实现，默认使用 `globalThis.indexedDB` */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * IndexedDB 存储接口类型
+ */
+export interface IndexedStorageInterface extends AsyncStorageInterface {
+  /**
+   * 删除所有已过期的对象
+   * @returns 返回删除的数量
+   */
+  purgeExpired: () => Promise<number>;
+  /**
+   * 关闭数据库连接，之后再次调用其他方法会重新打开
+   */
+  close: () => void;
+}
+
+/**
+ * 值在 IndexedDB 中的储存结构，值由结构化克隆保存，`Date`、`Map`、`Set` 等类型无需序列化
+ */
+interface IndexedRecord {
+  value: any;
+  expires?: number;
+}
+
+/**
+ * 将 IDBRequest 转换为 Promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isExpired(record: IndexedRecord, now: number = Date.now()): boolean {
+  return record.expires !== undefined && record.expires <= now;
+}
+
+/**
+ * 打开数据库的最大尝试次数，多个实例同时创建对象仓库时需要重试
+ */
+const MAX_OPEN_ATTEMPTS = 5;
+
+/**
+ * 打开指定版本的数据库，升级时创建对象仓库
+ */
+function openRequest(factory: IDBFactory, dbName: string, storeName: string, version?: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const request = version === undefined ? factory.open(dbName) : factory.open(dbName, version);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (settled) {
+        // 已因被阻塞而失败，关闭迟到的连接
+        db.close();
+        return;
+      }
+      settled = true;
+      // 其他连接升级数据库时立即关闭，避免阻塞升级
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => {
+      settled = true;
+      reject(request.error);
+    };
+    // 其他标签页等持有的连接没有关闭时升级会一直等待
+    request.onblocked = () => {
+      settled = true;
+      reject(new Error(`storageIndexed: upgrading database "${dbName}" is blocked by another open connection`));
+    };
+  });
+}
+
+/**
+ * 打开数据库，对象仓库不存在时升级数据库版本并创建
+ */
+async function openDatabase(factory: IDBFactory, dbName: string, storeName: string): Promise<IDBDatabase> {
+  let version: number | undefined;
+
+  for (let attempt = 0; attempt < MAX_OPEN_ATTEMPTS; attempt++) {
+    let db: IDBDatabase;
+    try {
+      db = await openRequest(factory, dbName, storeName, version);
+    } catch (error) {
+      // 其他实例已将数据库升级到更高的版本，重新读取当前版本
+      if ((error as { name?: string } | null)?.name === 'VersionError') {
+        version = undefined;
+        continue;
+      }
+      throw error;
+    }
+
+    if (db.objectStoreNames.contains(storeName)) {
+      return db;
+    }
+
+    // 其他实例同时升级到了同一版本，对象仓库仍不存在时使用更高的版本重试
+    version = db.version + 1;
+    db.close();
+  }
+
+  throw new Error(`storageIndexed: failed to create object store "${storeName}" in database "${dbName}"`);
+}
+
+/**
+ * 处理 `IndexedDB`，提供与 `storageLocal` 一致的异步接口，适合储存较大的离线缓存
+ * 
+ * @param dbName - 数据库名
+ * @param storeName - 对象仓库名，不存在时自动创建
+ * @param options - 配置选项
+ * @param options.indexedDB - 自定义 IndexedDB 实现，默认使用 `globalThis.indexedDB`
+ * @returns 返回 IndexedDB 存储接口
+ * 
+ * @example
+ * ```typescript
+ * const cache = storageIndexed('my-app', 'cache');
+ * 
+ * await cache.setItem('list', { items: [], updatedAt: new Date() }, { ttl: 24 * 60 * 60 * 1000 });
+ * const list = await cache.getItem<{ items: any[]; updatedAt: Date }>('list');
+ * 
+ * await cache.keys(); // ['list']
+ * await cache.purgeExpired();
+ * 
+ * // Node.js 中使用 fake-indexeddb
+ * import { indexedDB } from 'fake-indexeddb';
+ * const testCache = storageIndexed('test', 'cache', { indexedDB });
+ * ```
+ */
+export function storageIndexed(
+  dbName: string,
+  storeName: string,
+  options: IndexedStorageOptions = {}
+): IndexedStorageInterface {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  function getDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+      const factory = options.indexedDB || (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+      if (!factory) {
+        return Promise.reject(new Error('storageIndexed: indexedDB is not available in this environment'));
+      }
+
+      dbPromise = openDatabase(factory, dbName, storeName).then(db => {
+        // 其他连接升级数据库时关闭当前连接，下次调用时重新打开
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        return db;
+      });
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  }
+
+  /**
+   * 在对象仓库上执行操作，写操作等待事务完成后才返回
+   */
+  async function withStore<T>(mode: IDBTransactionMode, callback: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await getDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const result = promisifyRequest(callback(transaction.objectStore(storeName)));
+
+    if (mode === 'readonly') {
+      return result;
+    }
+
+    // 请求失败时事务也会失败，由事务统一抛出错误
+    result.catch(() => {});
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    return result;
+  }
+
+  /**
+   * 遍历对象仓库中的所有记录
+   */
+  async function iterate(
+    mode: IDBTransactionMode,
+    callback: (cursor: IDBCursorWithValue) => void
+  ): Promise<void> {
+    const db = await getDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const request = transaction.objectStore(storeName).openCursor();
+
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          callback(cursor);
+          cursor.continue();
+        }
+      };
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  return {
+    async setItem(k: string, v: any, setOptions?: StorageSetOptions): Promise<void> {
+      const record: IndexedRecord = { value: v, expires: resolveExpires(setOptions) };
+      await withStore('readwrite', store => store.put(record, k));
+    },
+
+    async getItem<T = any>(k: string): Promise<T | undefined> {
+      const record: IndexedRecord | undefined = await withStore('readonly', store => store.get(k));
+      if (!record) {
+        return undefined;
+      }
+      if (isExpired(record)) {
+        await withStore('readwrite', store => store.delete(k));
+        return undefined;
+      }
+      return record.value as T;
+    },
+
+    async removeItem(k: string): Promise<void> {
+      await withStore('readwrite', store => store.delete(k));
+    },
+
+    async clear(): Promise<void> {
+      await withStore('readwrite', store => store.clear());
+    },
+
+    async keys(): Promise<string[]> {
+      const keys: string[] = [];
+      const now = Date.now();
+
+      await iterate('readonly', cursor => {
+        if (!isExpired(cursor.value, now)) {
+          keys.push(String(cursor.key));
+        }
+      });
+
+      return keys;
+    },
+
+    async purgeExpired(): Promise<number> {
+      let count = 0;
+      const now = Date.now();
+
+      await iterate('readwrite', cursor => {
+        if (isExpired(cursor.value, now)) {
+          cursor.delete();
+          count++;
+        }
+      });
+
+      return count;
+    },
+
+    close(): void {
+      if (dbPromise) {
+        dbPromise.then(db => db.close()).catch(() => {});
+        dbPromise = null;
+      }
+    }
+  };
+}
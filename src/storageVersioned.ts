@@ -0,0 +1,191 @@
+/**
+ * 带版本号的存储相关工具函数
+ * 支持任意 JavaScript 环境或框架
+ */
+
+import type { StorageInterface, StorageSetOptions } from './storage';
+
+/**
+ * 迁移函数，将上一个版本的值升级为下一个版本
+ */
+export type StorageMigration = (value: any) => any;
+
+/**
+ * 带版本号的存储配置项
+ */
+export interface VersionedStorageOptions<T> {
+  /** 当前数据结构的版本号 */
+  version: number;
+  /** 迁移函数，键名为升级前的版本号，如 `{ 1: v1 => v2 }` 表示从版本 1 升级到版本 2 */
+  migrations?: Record<number, StorageMigration>;
+  /** 校验函数，迁移后的值校验不通过时视为损坏数据，返回 undefined */
+  validate?: (value: unknown) => boolean;
+  /** 没有版本号的旧数据视为的版本号，默认 `0` */
+  legacyVersion?: number;
+  /** 是否删除校验不通过或无法迁移的数据，默认 `false` */
+  removeInvalid?: boolean;
+}
+
+/**
+ * 带版本号的存储接口类型
+ */
+export interface VersionedStorageInterface<T> {
+  /**
+   * 储存对应键名的对象，会同时写入当前版本号
+   * @param k - 键名
+   * @param v - 键值
+   * @param options - 过期、优先级配置
+   */
+  setItem: (k: string, v: T, options?: StorageSetOptions) => void;
+  /**
+   * 获取对应键名的对象，旧版本的值会依次执行迁移函数升级到当前版本并写回
+   * @param k - 键名
+   * @returns 返回当前版本的值，如果不存在、无法迁移或校验不通过返回 undefined
+   */
+  getItem: (k: string) => T | undefined;
+  /**
+   * 删除对应键名的对象
+   * @param k - 键名
+   */
+  removeItem: (k: string) => void;
+  /**
+   * 删除所有带版本号的对象，底层存储中没有版本号的值（包括未迁移的旧数据）不会被删除
+   */
+  clear: () => void;
+  /**
+   * 获取所有键名
+   * @returns 返回键名数组
+   */
+  keys: () => string[];
+}
+
+/**
+ * 版本号在储存结构中的字段名
+ */
+const VERSION_FLAG = '__version__';
+
+/**
+ * 带版本号的值在 Storage 中的包装结构
+ */
+interface VersionedRecord {
+  [VERSION_FLAG]: number;
+  data: any;
+}
+
+function isVersionedRecord(val: any): val is VersionedRecord {
+  return val !== null && typeof val === 'object' && typeof val[VERSION_FLAG] === 'number';
+}
+
+/**
+ * 创建带版本号的存储，读取旧版本的值时自动执行迁移函数
+ * 
+ * @param storage - 底层 Storage 操作接口，如 `storageLocal()`、`createNamespacedStorage()`
+ * @param options - 配置选项
+ * @param options.version - 当前数据结构的版本号
+ * @param options.migrations - 迁移函数，键名为升级前的版本号
+ * @param options.validate - 校验函数
+ * @param options.legacyVersion - 没有版本号的旧数据视为的版本号，默认 `0`
+ * @param options.removeInvalid - 是否删除校验不通过或无法迁移的数据，默认 `false`
+ * @returns 返回带版本号的存储接口
+ * 
+ * @example
+ * ```typescript
+ * interface UserV2 {
+ *   firstName: string;
+ *   lastName: string;
+ * }
+ * 
+ * const users = createVersionedStorage<UserV2>(createNamespacedStorage('user', window.localStorage), {
+ *   version: 2,
+ *   migrations: {
+ *     // 版本 0（未带版本号的旧数据）：'xiaoming'
+ *     0: name => ({ name }),
+ *     // 版本 1：{ name: 'xiao ming' }
+ *     1: ({ name }) => {
+ *       const [firstName = '', lastName = ''] = name.split(' ');
+ *       return { firstName, lastName };
+ *     }
+ *   },
+ *   validate: (value): value is UserV2 => typeof (value as UserV2)?.firstName === 'string'
+ * });
+ * 
+ * users.getItem('current'); // { firstName: 'xiao', lastName: 'ming' }
+ * ```
+ */
+export function createVersionedStorage<T = any>(
+  storage: StorageInterface,
+  options: VersionedStorageOptions<T>
+): VersionedStorageInterface<T> {
+  const { version, migrations = {}, validate, legacyVersion = 0, removeInvalid = false } = options;
+
+  /**
+   * 处理无法使用的数据
+   */
+  function reject(k: string, reason: string): undefined {
+    console.warn(`versionedStorage: ${reason} for "${k}"`);
+    if (removeInvalid) {
+      storage.removeItem(k);
+    }
+    return undefined;
+  }
+
+  return {
+    setItem(k: string, v: T, setOptions?: StorageSetOptions): void {
+      storage.setItem(k, { [VERSION_FLAG]: version, data: v } as VersionedRecord, setOptions);
+    },
+
+    getItem(k: string): T | undefined {
+      const stored = storage.getItem(k);
+      if (stored === undefined) {
+        return undefined;
+      }
+
+      let current = isVersionedRecord(stored) ? stored[VERSION_FLAG] : legacyVersion;
+      let value = isVersionedRecord(stored) ? stored.data : stored;
+
+      if (current > version) {
+        return reject(k, `stored version ${current} is newer than ${version}`);
+      }
+
+      const migrated = current < version;
+      try {
+        while (current < version) {
+          const migrate = migrations[current];
+          if (typeof migrate !== 'function') {
+            return reject(k, `missing migration from version ${current}`);
+          }
+          value = migrate(value);
+          current++;
+        }
+      } catch (error) {
+        return reject(k, `migration from version ${current} failed (${error instanceof Error ? error.message : String(error)})`);
+      }
+
+      if (validate && !validate(value)) {
+        return reject(k, `validation failed at version ${version}`);
+      }
+
+      if (migrated) {
+        // 写回升级后的值，保留原有的过期时间
+        storage.setItem(k, { [VERSION_FLAG]: version, data: value } as VersionedRecord, { expires: storage.getExpires(k) });
+      }
+
+      return value as T;
+    },
+
+    removeItem(k: string): void {
+      storage.removeItem(k);
+    },
+
+    clear(): void {
+      // 底层存储未带命名空间时 storage.clear() 会清空整个存储，只删除本工具写入的值
+      storage.keys()
+        .filter(k => isVersionedRecord(storage.getItem(k)))
+        .forEach(k => storage.removeItem(k));
+    },
+
+    keys(): string[] {
+      return storage.keys();
+    }
+  };
+}
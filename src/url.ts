@@ -3,6 +3,42 @@
  * 支持任意运行在浏览器的 JavaScript 语言
  */
 
+import { isPlainObject } from './is';
+
+/**
+ * 提取 `url` 中的查询字符串（不含 `?`），hash 路由中的查询参数优先
+ */
+function extractQueryString(url: string): string {
+  // 处理 hash 路由中的查询参数（如 http://test/#/path?a=1&b=2）
+  let queryString = '';
+
+  // 检查是否有 hash 路由
+  const hashIndex = url.indexOf('#');
+  if (hashIndex !== -1) {
+    // 提取 hash 后面的部分
+    const hashPart = url.substring(hashIndex + 1);
+    // 检查 hash 部分是否有查询参数
+    const queryIndex = hashPart.indexOf('?');
+    if (queryIndex !== -1) {
+      queryString = hashPart.substring(queryIndex + 1);
+    } else {
+      // 如果没有 hash 中的查询参数，检查原始 URL 是否有查询参数
+      const urlQueryIndex = url.indexOf('?');
+      if (urlQueryIndex !== -1 && urlQueryIndex < hashIndex) {
+        queryString = url.substring(urlQueryIndex + 1, hashIndex);
+      }
+    }
+  } else {
+    // 没有 hash，直接提取查询字符串
+    const queryIndex = url.indexOf('?');
+    if (queryIndex !== -1) {
+      queryString = url.substring(queryIndex + 1);
+    }
+  }
+
+  return queryString;
+}
+
 /**
  * 提取浏览器 `url` 中所有参数
  * 
@@ -26,32 +62,7 @@ export function getQueryMap(url: string): Record<string, string> {
   const result: Record<string, string> = {};
 
   try {
-    // 处理 hash 路由中的查询参数（如 http://test/#/path?a=1&b=2）
-    let queryString = '';
-
-    // 检查是否有 hash 路由
-    const hashIndex = url.indexOf('#');
-    if (hashIndex !== -1) {
-      // 提取 hash 后面的部分
-      const hashPart = url.substring(hashIndex + 1);
-      // 检查 hash 部分是否有查询参数
-      const queryIndex = hashPart.indexOf('?');
-      if (queryIndex !== -1) {
-        queryString = hashPart.substring(queryIndex + 1);
-      } else {
-        // 如果没有 hash 中的查询参数，检查原始 URL 是否有查询参数
-        const urlQueryIndex = url.indexOf('?');
-        if (urlQueryIndex !== -1 && urlQueryIndex < hashIndex) {
-          queryString = url.substring(urlQueryIndex + 1, hashIndex);
-        }
-      }
-    } else {
-      // 没有 hash，直接提取查询字符串
-      const queryIndex = url.indexOf('?');
-      if (queryIndex !== -1) {
-        queryString = url.substring(queryIndex + 1);
-      }
-    }
+    let queryString = extractQueryString(url);
 
     if (!queryString) {
       return result;
@@ -88,6 +99,652 @@ export function getQueryMap(url: string): Record<string, string> {
   return result;
 }
 
+/**
+ * parseQuery 配置项
+ */
+export interface ParseQueryOptions {
+  /** 是否解析 `a[b][c]`、`a[]`、`a[0]` 形式的嵌套参数，默认 `true` */
+  nested?: boolean;
+  /** 是否将 `a=1,2` 解析为数组，默认 `false` */
+  comma?: boolean;
+  /** 是否将 `+` 解码为空格，默认 `true` */
+  plusAsSpace?: boolean;
+  /** 是否将数字、布尔值字符串转换为对应类型，默认 `false` */
+  coerce?: boolean;
+}
+
+/**
+ * 解析后的查询参数
+ */
+export type ParsedQuery = Record<string, any>;
+
+/**
+ * 不允许作为键名的字段，防止原型污染
+ */
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * 将数字、布尔值字符串转换为对应类型，`007`、超出精度的数字等转换后会变化的字符串保持原样
+ */
+function coerceQueryValue(value: string): string | number | boolean {
+  if (value === 'true') {
+    return true;
+  }
+  if (value === 'false') {
+    return false;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value) && String(Number(value)) === value) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * 解码查询参数中的键名或值，无法解码时返回原字符串
+ */
+function decodeQueryComponent(str: string, plusAsSpace: boolean): string {
+  const text = plusAsSpace ? str.replace(/\+/g, ' ') : str;
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * 将 `a[b][0][]` 形式的键名拆分为 `['a', 'b', '0', '']`
+ */
+function splitQueryKey(key: string): string[] {
+  const match = /^([^[\]]+)((?:\[[^[\]]*\])+)$/.exec(key);
+  if (!match) {
+    return [key];
+  }
+  const segments = match[2].slice(1, -1).split('][');
+  return [match[1], ...segments];
+}
+
+/**
+ * 数字下标的上限，超过时追加到数组末尾，避免 `a[4294967294]` 创建超大的稀疏数组
+ */
+const QUERY_ARRAY_LIMIT = 1000;
+
+function hasOwn(target: object, key: PropertyKey): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+/**
+ * 按键名路径把值写入结果对象，重复的键名合并为数组
+ * 
+ * 同一键名同时出现普通值和嵌套参数时（如 `a=1&a[b]=2`），普通值保存在空键名下：`{ a: { '': '1', b: '2' } }`
+ */
+function assignQueryValue(target: Record<string, any> | any[], path: string[], value: any): void {
+  let container: any = target;
+
+  for (let i = 0; i < path.length; i++) {
+    const isLast = i === path.length - 1;
+    const segment = path[i];
+    if (UNSAFE_KEYS.includes(segment)) {
+      return;
+    }
+
+    // 空下标（a[]）追加到数组末尾，数字下标按下标写入，解析完成后再去掉空位
+    const key: string | number = Array.isArray(container)
+      ? (/^\d+$/.test(segment) && Number(segment) <= QUERY_ARRAY_LIMIT ? Number(segment) : container.length)
+      : segment;
+    // 只读取自身属性，避免 `toString` 等键名读取到原型上的方法
+    const existing = hasOwn(container, key) ? container[key] : undefined;
+
+    if (isLast) {
+      if (existing === undefined) {
+        container[key] = value;
+      } else if (Array.isArray(existing)) {
+        existing.push(...(Array.isArray(value) ? value : [value]));
+      } else if (typeof existing === 'object' && existing !== null) {
+        assignQueryValue(existing, [''], value);
+      } else {
+        container[key] = [existing, ...(Array.isArray(value) ? value : [value])];
+      }
+      return;
+    }
+
+    const nextSegment = path[i + 1];
+    const wantsArray = nextSegment === '' || /^\d+$/.test(nextSegment);
+    let next = existing;
+
+    if (next === undefined || next === null) {
+      next = wantsArray ? [] : {};
+      container[key] = next;
+    } else if (typeof next !== 'object') {
+      // 已有普通值时保留，数组中作为第一项，对象中保存在空键名下
+      next = wantsArray ? [next] : { '': next };
+      container[key] = next;
+    } else if (Array.isArray(next) && !wantsArray) {
+      // 数组中出现非数字键名时转换为对象
+      next = Object.assign({}, next);
+      container[key] = next;
+    }
+
+    container = next;
+  }
+}
+
+/**
+ * 去掉数字下标不连续（如 `a[1]=x&a[5]=y`）时数组中的空位
+ */
+function compactQueryArrays(value: any): any {
+  if (Array.isArray(value)) {
+    return value.filter(() => true).map(compactQueryArrays);
+  }
+  if (value !== null && typeof value === 'object') {
+    Object.keys(value).forEach(key => {
+      value[key] = compactQueryArrays(value[key]);
+    });
+  }
+  return value;
+}
+
+/**
+ * 解析 `url` 中的查询参数，支持重复键名、嵌套对象和类型转换
+ * 
+ * @param url - 超链接地址，支持 hash 路由中的查询参数
+ * @param options - 配置选项
+ * @param options.nested - 是否解析嵌套参数，默认 `true`
+ * @param options.comma - 是否将 `a=1,2` 解析为数组，默认 `false`
+ * @param options.plusAsSpace - 是否将 `+` 解码为空格，默认 `true`
+ * @param options.coerce - 是否将数字、布尔值字符串转换为对应类型，默认 `false`
+ * @returns 返回包含所有查询参数的对象
+ * 
+ * @example
+ * ```typescript
+ * parseQuery('https://example.com?tag=a&tag=b&filter[status]=1&q=hello+world');
+ * // { tag: ['a', 'b'], filter: { status: '1' }, q: 'hello world' }
+ * 
+ * parseQuery('http://test/#/list?ids[]=1&ids[]=2&active=true', { coerce: true });
+ * // { ids: [1, 2], active: true }
+ * 
+ * parseQuery('?tags=a,b', { comma: true }); // { tags: ['a', 'b'] }
+ * 
+ * // 同一键名同时出现普通值和嵌套参数时，普通值保存在空键名下
+ * parseQuery('?a=1&a[b]=2'); // { a: { '': '1', b: '2' } }
+ * ```
+ */
+export function parseQuery(url: string, options: ParseQueryOptions = {}): ParsedQuery {
+  const result: ParsedQuery = {};
+  if (!url || typeof url !== 'string') {
+    return result;
+  }
+
+  const { nested = true, comma = false, plusAsSpace = true, coerce = false } = options;
+
+  const decode = (str: string): string => decodeQueryComponent(str, plusAsSpace);
+  const convert = (str: string): any => (coerce ? coerceQueryValue(str) : str);
+
+  try {
+    const queryString = extractQueryString(url);
+
+    queryString.split('&').forEach(param => {
+      if (!param) {
+        return;
+      }
+
+      const equalIndex = param.indexOf('=');
+      const rawKey = equalIndex === -1 ? param : param.substring(0, equalIndex);
+      const rawValue = equalIndex === -1 ? '' : param.substring(equalIndex + 1);
+      if (!rawKey) {
+        return;
+      }
+
+      const key = decode(rawKey);
+      // 先按逗号拆分再解码，保留编码后的逗号（%2C）
+      const value = comma && rawValue.includes(',')
+        ? rawValue.split(',').map(item => convert(decode(item)))
+        : convert(decode(rawValue));
+
+      assignQueryValue(result, nested ? splitQueryKey(key) : [key], value);
+    });
+  } catch (error) {
+    console.error('parseQuery error:', error);
+  }
+
+  return compactQueryArrays(result);
+}
+
+/**
+ * 数组参数的序列化格式
+ * - `repeat`：`a=1&a=2`
+ * - `bracket`：`a[]=1&a[]=2`
+ * - `comma`：`a=1,2`
+ * - `index`：`a[0]=1&a[1]=2`
+ */
+export type QueryArrayFormat = 'repeat' | 'bracket' | 'comma' | 'index';
+
+/**
+ * stringifyQuery 配置项
+ */
+export interface StringifyQueryOptions {
+  /** 数组参数的序列化格式，默认 `repeat` */
+  arrayFormat?: QueryArrayFormat;
+  /** 是否跳过值为 `null`、`undefined` 的参数，默认 `true`，为 `false` 时序列化为空字符串 */
+  skipNull?: boolean;
+  /** 自定义编码函数，默认 `encodeURIComponent` */
+  encode?: (value: string) => string;
+  /** 是否按键名排序，传入函数时作为排序比较函数，默认 `false` */
+  sort?: boolean | ((a: string, b: string) => number);
+  /** 是否在结果前加上 `?`（结果为空时不加），默认 `false` */
+  addQueryPrefix?: boolean;
+}
+
+/**
+ * 将参数值转换为字符串
+ */
+function queryValueToString(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+/**
+ * 将对象序列化为 `url` 查询字符串，是 `parseQuery` 的逆操作
+ * 
+ * @param obj - 参数对象，支持数组和嵌套对象
+ * @param options - 配置选项
+ * @param options.arrayFormat - 数组参数的序列化格式（`repeat`、`bracket`、`comma`、`index`），默认 `repeat`
+ * @param options.skipNull - 是否跳过值为 `null`、`undefined` 的参数，默认 `true`
+ * @param options.encode - 自定义编码函数，默认 `encodeURIComponent`
+ * @param options.sort - 是否按键名排序，默认 `false`
+ * @param options.addQueryPrefix - 是否在结果前加上 `?`，默认 `false`
+ * @returns 返回查询字符串
+ * 
+ * @example
+ * ```typescript
+ * stringifyQuery({ name: 'john', tags: ['a', 'b'], empty: null });
+ * // 'name=john&tags=a&tags=b'
+ * 
+ * stringifyQuery({ tags: ['a', 'b'] }, { arrayFormat: 'bracket' }); // 'tags[]=a&tags[]=b'
+ * stringifyQuery({ tags: ['a', 'b'] }, { arrayFormat: 'comma' }); // 'tags=a,b'
+ * stringifyQuery({ tags: ['a', 'b'] }, { arrayFormat: 'index' }); // 'tags[0]=a&tags[1]=b'
+ * 
+ * stringifyQuery({ filter: { status: 1, range: { min: 0 } } });
+ * // 'filter[status]=1&filter[range][min]=0'
+ * 
+ * stringifyQuery({ b: 2, a: 1 }, { sort: true, addQueryPrefix: true }); // '?a=1&b=2'
+ * ```
+ */
+export function stringifyQuery(obj: Record<string, any>, options: StringifyQueryOptions = {}): string {
+  if (!obj || typeof obj !== 'object') {
+    return '';
+  }
+
+  const {
+    arrayFormat = 'repeat',
+    skipNull = true,
+    encode = encodeURIComponent,
+    sort = false,
+    addQueryPrefix = false
+  } = options;
+
+  const pairs: string[] = [];
+
+  const sortKeys = (keys: string[]): string[] => {
+    if (!sort) {
+      return keys;
+    }
+    return typeof sort === 'function' ? keys.sort(sort) : keys.sort();
+  };
+
+  const isNested = (value: unknown): boolean => Array.isArray(value) || isPlainObject(value);
+
+  function append(key: string, value: any): void {
+    if (value === null || value === undefined) {
+      if (!skipNull) {
+        pairs.push(`${key}=`);
+      }
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      const items = skipNull ? value.filter(item => item !== null && item !== undefined) : value;
+
+      if (arrayFormat === 'comma' && !items.some(isNested)) {
+        if (items.length) {
+          pairs.push(`${key}=${items.map(item => encode(item === null || item === undefined ? '' : queryValueToString(item))).join(',')}`);
+        }
+        return;
+      }
+
+      items.forEach((item, index) => {
+        // 数组中的对象、数组只能通过下标区分
+        if (arrayFormat === 'index' || isNested(item)) {
+          append(`${key}[${index}]`, item);
+        } else if (arrayFormat === 'bracket') {
+          append(`${key}[]`, item);
+        } else {
+          append(key, item);
+        }
+      });
+      return;
+    }
+
+    if (isPlainObject(value)) {
+      sortKeys(Object.keys(value)).forEach(childKey => {
+        append(`${key}[${encode(childKey)}]`, (value as Record<string, any>)[childKey]);
+      });
+      return;
+    }
+
+    pairs.push(`${key}=${encode(queryValueToString(value))}`);
+  }
+
+  sortKeys(Object.keys(obj)).forEach(key => append(encode(key), obj[key]));
+
+  const query = pairs.join('&');
+  return addQueryPrefix && query ? `?${query}` : query;
+}
+
+/**
+ * 修改查询参数时的目标位置
+ * - `auto`：hash 路由（如 `#/path`、`#/path?a=1`）修改 hash 中的查询参数，否则修改真实的查询参数
+ * - `search`：修改 `#` 之前的查询参数
+ * - `hash`：修改 hash 中的查询参数
+ */
+export type UrlQueryTarget = 'auto' | 'search' | 'hash';
+
+/**
+ * 修改查询参数的配置项
+ */
+export interface UrlQueryOptions extends StringifyQueryOptions, ParseQueryOptions {
+  /** 修改的目标位置，默认 `auto` */
+  target?: UrlQueryTarget;
+}
+
+/**
+ * url 拆分后的各个部分
+ */
+export interface UrlParts {
+  /** 协议和主机，如 `https://example.com`，相对路径时为空字符串 */
+  origin: string;
+  /** 路径 */
+  pathname: string;
+  /** 查询字符串（不含 `?`） */
+  search: string;
+  /** hash（不含 `#`），为 null 时表示没有 hash */
+  hash: string | null;
+}
+
+/**
+ * 拆分 url，不依赖 `window` 和 `URL`，相对路径也可以处理
+ */
+export function splitUrl(url: string): UrlParts {
+  const hashIndex = url.indexOf('#');
+  const hash = hashIndex === -1 ? null : url.substring(hashIndex + 1);
+  const beforeHash = hashIndex === -1 ? url : url.substring(0, hashIndex);
+
+  const queryIndex = beforeHash.indexOf('?');
+  const search = queryIndex === -1 ? '' : beforeHash.substring(queryIndex + 1);
+  const path = queryIndex === -1 ? beforeHash : beforeHash.substring(0, queryIndex);
+
+  const originMatch = /^(?:[a-z][a-z\d+\-.]*:)?\/\/[^/]*/i.exec(path);
+  const origin = originMatch ? originMatch[0] : '';
+
+  return { origin, pathname: path.substring(origin.length), search, hash };
+}
+
+function joinUrlParts(parts: UrlParts): string {
+  return parts.origin
+    + parts.pathname
+    + (parts.search ? `?${parts.search}` : '')
+    + (parts.hash !== null ? `#${parts.hash}` : '');
+}
+
+/**
+ * 是否是 hash 路由（如 `#/path`、`#/path?a=1`）
+ */
+export function isHashRoute(hash: string | null): boolean {
+  return hash !== null && (hash.startsWith('/') || hash.includes('?'));
+}
+
+/**
+ * 修改 url 中的查询参数
+ */
+function updateUrlQuery(
+  url: string,
+  target: UrlQueryTarget,
+  updater: (query: string) => string
+): string {
+  if (!url || typeof url !== 'string') {
+    return url;
+  }
+
+  const parts = splitUrl(url);
+  const useHash = target === 'hash' || (target === 'auto' && isHashRoute(parts.hash));
+
+  if (!useHash) {
+    parts.search = updater(parts.search);
+    return joinUrlParts(parts);
+  }
+
+  const hash = parts.hash || '';
+  const queryIndex = hash.indexOf('?');
+  const hashPath = queryIndex === -1 ? hash : hash.substring(0, queryIndex);
+  const query = updater(queryIndex === -1 ? '' : hash.substring(queryIndex + 1));
+
+  parts.hash = hashPath + (query ? `?${query}` : '');
+  if (parts.hash === '' && url.indexOf('#') === -1) {
+    parts.hash = null;
+  }
+  return joinUrlParts(parts);
+}
+
+/**
+ * 替换 url 中的所有查询参数，返回新的 url，支持 hash 路由
+ * 
+ * @param url - 超链接地址
+ * @param params - 新的查询参数，为空对象时删除所有查询参数
+ * @param options - 配置选项，同 `stringifyQuery`
+ * @param options.target - 修改的目标位置（`auto`、`search`、`hash`），默认 `auto`
+ * @returns 返回新的 url
+ * 
+ * @example
+ * ```typescript
+ * setQuery('https://example.com/list?page=2', { page: 1, size: 10 });
+ * // 'https://example.com/list?page=1&size=10'
+ * 
+ * setQuery('http://test/#/list?page=2', { page: 1 });
+ * // 'http://test/#/list?page=1'
+ * ```
+ */
+export function setQuery(url: string, params: Record<string, any>, options: UrlQueryOptions = {}): string {
+  return updateUrlQuery(url, options.target || 'auto', () => stringifyQuery(params, options));
+}
+
+/**
+ * 将查询字符串拆分为原始的键值对，`name` 为解码后的参数名（嵌套参数 `a[b]` 为 `a`）
+ */
+function splitQueryPairs(query: string, options: ParseQueryOptions): Array<{ raw: string; name: string }> {
+  const { nested = true, plusAsSpace = true } = options;
+
+  return query.split('&').filter(Boolean).map(raw => {
+    const equalIndex = raw.indexOf('=');
+    const key = decodeQueryComponent(equalIndex === -1 ? raw : raw.substring(0, equalIndex), plusAsSpace);
+    return { raw, name: nested ? splitQueryKey(key)[0] : key };
+  });
+}
+
+/**
+ * 合并 url 中的查询参数，值为 `null`、`undefined` 的参数会被删除，返回新的 url，支持 hash 路由
+ * 
+ * 只替换或删除 `params` 中的参数，其他参数（包括 `a[]=1`、没有值的 `flag`）保持原样
+ * 
+ * @param url - 超链接地址
+ * @param params - 需要合并的查询参数
+ * @param options - 配置选项，同 `parseQuery`、`stringifyQuery`
+ * @param options.target - 修改的目标位置（`auto`、`search`、`hash`），默认 `auto`
+ * @returns 返回新的 url
+ * 
+ * @example
+ * ```typescript
+ * mergeQuery('https://example.com/list?page=2&keyword=a', { page: 3, keyword: null });
+ * // 'https://example.com/list?page=3'
+ * 
+ * // hash 路由修改 hash 中的查询参数
+ * mergeQuery('http://test/?from=app#/detail?id=1', { tab: 'info' });
+ * // 'http://test/?from=app#/detail?id=1&tab=info'
+ * 
+ * // 指定修改真实的查询参数
+ * mergeQuery('http://test/#/detail', { from: 'app' }, { target: 'search' });
+ * // 'http://test/?from=app#/detail'
+ * ```
+ */
+export function mergeQuery(url: string, params: Record<string, any>, options: UrlQueryOptions = {}): string {
+  const stringifyOptions: StringifyQueryOptions = { ...options, skipNull: true, addQueryPrefix: false };
+
+  return updateUrlQuery(url, options.target || 'auto', query => {
+    const pairs: string[] = [];
+    const merged = new Set<string>();
+
+    // 已有的参数在第一次出现的位置替换，其余参数原样保留
+    splitQueryPairs(query, options).forEach(({ raw, name }) => {
+      if (!hasOwn(params, name)) {
+        pairs.push(raw);
+        return;
+      }
+      if (!merged.has(name)) {
+        merged.add(name);
+        pairs.push(stringifyQuery({ [name]: params[name] }, stringifyOptions));
+      }
+    });
+
+    const added: Record<string, any> = {};
+    Object.keys(params).forEach(key => {
+      if (!merged.has(key)) {
+        added[key] = params[key];
+      }
+    });
+    pairs.push(stringifyQuery(added, stringifyOptions));
+
+    return pairs.filter(Boolean).join('&');
+  });
+}
+
+/**
+ * 删除 url 中的指定查询参数，返回新的 url，支持 hash 路由
+ * 
+ * 参数名匹配时包括嵌套参数（删除 `ids` 时同时删除 `ids[]=1`、`ids[0]=1`），其他参数保持原样
+ * 
+ * @param url - 超链接地址
+ * @param keys - 需要删除的参数名
+ * @param options - 配置选项，`nested`、`plusAsSpace` 同 `parseQuery`
+ * @param options.target - 修改的目标位置（`auto`、`search`、`hash`），默认 `auto`
+ * @returns 返回新的 url
+ * 
+ * @example
+ * ```typescript
+ * removeQuery('https://example.com/list?page=2&token=xxx', 'token');
+ * // 'https://example.com/list?page=2'
+ * 
+ * removeQuery('http://test/#/list?page=2&token=xxx', ['page', 'token']);
+ * // 'http://test/#/list'
+ * ```
+ */
+export function removeQuery(url: string, keys: string | string[], options: UrlQueryOptions = {}): string {
+  const removeKeys = Array.isArray(keys) ? keys : [keys];
+
+  return updateUrlQuery(url, options.target || 'auto', query => splitQueryPairs(query, options)
+    .filter(({ name }) => !removeKeys.includes(name))
+    .map(({ raw }) => raw)
+    .join('&'));
+}
+
+/**
+ * 替换 url 中的路径，保留查询参数和 hash，返回新的 url，支持 hash 路由
+ * 
+ * @param url - 超链接地址
+ * @param path - 新的路径
+ * @param target - 修改的目标位置，`auto` 时 hash 路由替换 hash 中的路径，默认 `auto`
+ * @returns 返回新的 url
+ * 
+ * @example
+ * ```typescript
+ * replacePath('https://example.com/a/b?x=1#top', '/c');
+ * // 'https://example.com/c?x=1#top'
+ * 
+ * replacePath('http://test/#/list?page=2', '/detail');
+ * // 'http://test/#/detail?page=2'
+ * ```
+ */
+export function replacePath(url: string, path: string, target: UrlQueryTarget = 'auto'): string {
+  if (!url || typeof url !== 'string') {
+    return url;
+  }
+
+  const parts = splitUrl(url);
+  const normalized = path.startsWith('/') || !path ? path : `/${path}`;
+  const useHash = target === 'hash' || (target === 'auto' && isHashRoute(parts.hash));
+
+  if (!useHash) {
+    parts.pathname = normalized || (parts.origin ? '/' : '');
+    return joinUrlParts(parts);
+  }
+
+  const hash = parts.hash || '';
+  const queryIndex = hash.indexOf('?');
+  parts.hash = (normalized || '/') + (queryIndex === -1 ? '' : hash.substring(queryIndex));
+  return joinUrlParts(parts);
+}
+
+/**
+ * 替换 url 中的 hash，返回新的 url
+ * 
+ * @param url - 超链接地址
+ * @param hash - 新的 hash（可以带 `#`），为空字符串时删除 hash
+ * @returns 返回新的 url
+ * 
+ * @example
+ * ```typescript
+ * replaceHash('https://example.com/a?x=1#top', 'bottom'); // 'https://example.com/a?x=1#bottom'
+ * replaceHash('http://test/#/list?page=2', '#/detail'); // 'http://test/#/detail'
+ * replaceHash('https://example.com/a#top', ''); // 'https://example.com/a'
+ * ```
+ */
+export function replaceHash(url: string, hash: string): string {
+  if (!url || typeof url !== 'string') {
+    return url;
+  }
+
+  const parts = splitUrl(url);
+  const value = hash.startsWith('#') ? hash.substring(1) : hash;
+  parts.hash = value ? value : null;
+  return joinUrlParts(parts);
+}
+
+/**
+ * 拼接基础 url 与路径，自动处理多余或缺少的 `/`，保留基础 url 中的查询参数和 hash
+ * 
+ * @param base - 基础 url
+ * @param paths - 需要拼接的路径
+ * @returns 返回拼接后的 url
+ * 
+ * @example
+ * ```typescript
+ * joinURL('https://example.com/api/', '/users', '1'); // 'https://example.com/api/users/1'
+ * joinURL('/api', 'users/'); // '/api/users/'
+ * joinURL('https://example.com?v=1', 'list'); // 'https://example.com/list?v=1'
+ * ```
+ */
+export function joinURL(base: string, ...paths: string[]): string {
+  const parts = splitUrl(base || '');
+  const segments = paths.filter(path => typeof path === 'string' && path !== '');
+
+  let pathname = parts.pathname;
+  segments.forEach(segment => {
+    pathname = `${pathname.replace(/\/+$/, '')}/${segment.replace(/^\/+/, '')}`;
+  });
+  parts.pathname = pathname;
+
+  return joinUrlParts(parts);
+}
+
 /**
  * 获取浏览器当前的 `location` 信息
  * 
@@ -0,0 +1,58 @@
+/**
+ * 响应式 url 相关组合式函数
+ * 仅用于 Vue3，不依赖 vue-router
+ */
+
+import { computed, getCurrentScope, onScopeDispose, shallowRef, type ComputedRef, type Ref } from 'vue';
+import { getLocationSnapshot, subscribeLocation, type LocationChangeType, type LocationSnapshot } from './locationObserver';
+
+/**
+ * `useLocation` 返回值类型
+ */
+export interface UseLocationReturn {
+  /** 当前 url 的快照，非浏览器环境为 null */
+  location: Readonly<Ref<LocationSnapshot | null>>;
+  /** 查询参数，同 `getQueryMap` */
+  query: ComputedRef<Record<string, string>>;
+  /** 最近一次 url 变化的来源，未变化时为 null */
+  changeType: Readonly<Ref<LocationChangeType | null>>;
+  /** 停止监听，在组件或 effectScope 中使用时会自动调用 */
+  stop: () => void;
+}
+
+/**
+ * 以响应式的方式获取当前 url，url 变化时自动更新
+ * 
+ * @returns 返回响应式的 url 快照、查询参数和停止监听的函数
+ * 
+ * @example
+ * ```typescript
+ * import { watch } from 'vue';
+ * import { useLocation } from '@nuan/utils';
+ * 
+ * const { location, query } = useLocation();
+ * 
+ * watch(() => query.value.page, page => {
+ *   loadList(Number(page || 1));
+ * }, { immediate: true });
+ * ```
+ */
+export function useLocation(): UseLocationReturn {
+  const location = shallowRef<LocationSnapshot | null>(getLocationSnapshot());
+  const changeType = shallowRef<LocationChangeType | null>(null);
+  const query = computed(() => (location.value ? location.value.query : {}));
+
+  // 服务端渲染时不监听
+  const stop = location.value
+    ? subscribeLocation((current, event) => {
+      location.value = current;
+      changeType.value = event.type;
+    })
+    : () => {};
+
+  if (getCurrentScope()) {
+    onScopeDispose(stop);
+  }
+
+  return { location, query, changeType, stop };
+}
@@ -0,0 +1,492 @@
+/**
+ * 用户代理（User-Agent）解析相关工具函数
+ * 支持任意 JavaScript 环境，Node.js 中需传入 `User-Agent` 请求头
+ */
+
+/**
+ * 浏览器信息
+ */
+export interface UserAgentBrowser {
+  /** 浏览器名称，如 `Chrome`、`Mobile Safari`，无法识别时为空字符串 */
+  name: string;
+  /** 完整版本号，无法识别时为空字符串 */
+  version: string;
+  /** 主版本号，无法识别时为空字符串 */
+  major: string;
+}
+
+/**
+ * 操作系统信息
+ */
+export interface UserAgentOS {
+  /** 操作系统名称，如 `iOS`、`Android`、`Windows`，无法识别时为空字符串 */
+  name: string;
+  /** 版本号，无法识别时为空字符串 */
+  version: string;
+}
+
+/**
+ * 渲染引擎信息
+ */
+export interface UserAgentEngine {
+  /** 引擎名称，如 `Blink`、`WebKit`、`Gecko`，无法识别时为空字符串 */
+  name: string;
+  /** 版本号，无法识别时为空字符串 */
+  version: string;
+}
+
+/**
+ * 设备信息
+ */
+export interface UserAgentDevice {
+  /** 厂商，如 `Apple`、`Huawei`、`Samsung`，无法识别时为空字符串 */
+  vendor: string;
+  /** 型号，如 `iPhone`、`SM-G9910`，无法识别时为空字符串 */
+  model: string;
+}
+
+/**
+ * 宿主 App 名称
+ */
+export type UserAgentContainerName =
+  | 'WeChat'
+  | 'WeCom'
+  | 'Alipay'
+  | 'DingTalk'
+  | 'Feishu'
+  | 'QQ'
+  | 'Weibo'
+  | 'Douyin'
+  | 'Toutiao'
+  | 'Taobao'
+  | 'Baidu';
+
+/**
+ * 宿主 App（内嵌 WebView 的 App）信息
+ */
+export interface UserAgentContainer {
+  /** 宿主 App 名称，不在宿主 App 中时为空字符串 */
+  name: UserAgentContainerName | '';
+  /** 宿主 App 版本号，无法识别时为空字符串 */
+  version: string;
+  /** 是否在小程序的 web-view 中 */
+  miniProgram: boolean;
+}
+
+/**
+ * 爬虫分类
+ * - `search`：搜索引擎爬虫，如 Googlebot、Baiduspider
+ * - `social`：社交平台的链接预览，如 facebookexternalhit、Twitterbot
+ * - `monitoring`：可用性监控、性能检测，如 UptimeRobot、Lighthouse
+ * - `headless`：无头浏览器，如 HeadlessChrome、PhantomJS
+ * - `crawler`：其他爬虫、SEO 工具、AI 爬虫和 HTTP 请求库
+ */
+export type BotCategory = 'search' | 'social' | 'monitoring' | 'headless' | 'crawler';
+
+/**
+ * 爬虫检测结果
+ */
+export interface BotDetectionResult {
+  /** 是否是爬虫 */
+  isBot: boolean;
+  /** 爬虫名称，如 `Googlebot`，不是爬虫或无法识别时为空字符串 */
+  name: string;
+  /** 爬虫分类，不是爬虫时为空字符串 */
+  category: BotCategory | '';
+  /** 版本号，无法识别时为空字符串 */
+  version: string;
+}
+
+/**
+ * 用户代理解析结果
+ */
+export interface UserAgentResult {
+  /** 浏览器 */
+  browser: UserAgentBrowser;
+  /** 操作系统 */
+  os: UserAgentOS;
+  /** 渲染引擎 */
+  engine: UserAgentEngine;
+  /** 设备 */
+  device: UserAgentDevice;
+  /** 宿主 App */
+  container: UserAgentContainer;
+  /** 爬虫 */
+  bot: BotDetectionResult;
+  /** 用户代理字符串 */
+  userAgent: string;
+}
+
+/**
+ * 解析规则，按顺序匹配，第一个匹配成功的规则生效
+ */
+interface UserAgentRule {
+  /** 名称 */
+  name: string;
+  /** 匹配的正则，第一个捕获组为版本号 */
+  regexp: RegExp;
+  /** 版本号映射，如 Windows NT 6.1 对应 Windows 7 */
+  versions?: Record<string, string>;
+}
+
+/**
+ * 浏览器规则，套壳浏览器需要放在 Chrome、Safari 之前
+ */
+const BROWSER_RULES: UserAgentRule[] = [
+  { name: 'Huawei Browser', regexp: /HuaweiBrowser\/([\d.]+)/i },
+  { name: 'Samsung Internet', regexp: /SamsungBrowser\/([\d.]+)/i },
+  { name: 'MIUI Browser', regexp: /XiaoMi\/MiuiBrowser\/([\d.]+)/i },
+  { name: 'Vivo Browser', regexp: /VivoBrowser\/([\d.]+)/i },
+  { name: 'OPPO Browser', regexp: /(?:HeyTapBrowser|OppoBrowser)\/([\d.]+)/i },
+  { name: 'UC Browser', regexp: /(?:UCBrowser|UCWEB|UBrowser)\/?([\d.]+)/i },
+  { name: 'QQ Browser', regexp: /M?QQBrowser\/([\d.]+)/i },
+  { name: 'Quark', regexp: /Quark\/([\d.]+)/i },
+  { name: 'Baidu', regexp: /(?:baiduboxapp|baidubrowser|BIDUBrowser)[/ ]([\d.]+)/i },
+  { name: 'Sogou Explorer', regexp: /(?:SogouMobileBrowser|SE [\d.]+ MetaSr)[/ ]?([\d.]*)/i },
+  { name: '360 Browser', regexp: /(?:QihooBrowser|QHBrowser|360SE|360EE)\/?([\d.]*)/i },
+  { name: 'Yandex', regexp: /YaBrowser\/([\d.]+)/i },
+  { name: 'Vivaldi', regexp: /Vivaldi\/([\d.]+)/i },
+  { name: 'Opera Mini', regexp: /Opera Mini\/([\d.]+)/i },
+  { name: 'Opera', regexp: /(?:OPR|OPT|OPiOS)\/([\d.]+)/i },
+  { name: 'Opera', regexp: /Opera.+Version\/([\d.]+)/i },
+  { name: 'Opera', regexp: /Opera[/ ]([\d.]+)/i },
+  { name: 'Edge', regexp: /Edg(?:e|A|iOS)?\/([\d.]+)/i },
+  { name: 'Firefox', regexp: /(?:Firefox|FxiOS)\/([\d.]+)/i },
+  { name: 'Chrome Headless', regexp: /HeadlessChrome\/([\d.]+)/i },
+  { name: 'Chrome WebView', regexp: /; wv\).+Chrome\/([\d.]+)/i },
+  { name: 'Chrome', regexp: /(?:Chrome|CriOS)\/([\d.]+)/i },
+  { name: 'Chromium', regexp: /Chromium\/([\d.]+)/i },
+  { name: 'IE', regexp: /MSIE ([\d.]+)/i },
+  { name: 'IE', regexp: /Trident\/.+rv:([\d.]+)/i },
+  { name: 'Android Browser', regexp: /Android.+Version\/([\d.]+).+Safari/i },
+  { name: 'Mobile Safari', regexp: /Version\/([\d.]+).*Mobile\/\w+.*Safari/i },
+  { name: 'Safari', regexp: /Version\/([\d.]+).*Safari/i },
+  // 微信、钉钉等 App 内置的 WKWebView 没有 Safari 标识
+  { name: 'iOS WebView', regexp: /(?:iPhone|iPad|iPod).*AppleWebKit(?!.*Safari)()/i }
+];
+
+/**
+ * 操作系统规则，鸿蒙需要放在 Android 之前
+ */
+const OS_RULES: UserAgentRule[] = [
+  { name: 'Windows Phone', regexp: /Windows Phone(?: OS)? ([\d.]+)/i },
+  {
+    name: 'Windows',
+    regexp: /Windows NT ([\d.]+)/i,
+    versions: { '10.0': '10', '6.3': '8.1', '6.2': '8', '6.1': '7', '6.0': 'Vista', '5.2': 'XP', '5.1': 'XP' }
+  },
+  { name: 'HarmonyOS', regexp: /(?:HarmonyOS|OpenHarmony)[/ ]?([\d.]*)/i },
+  { name: 'iOS', regexp: /(?:iPhone|iPad|iPod)(?:.*?CPU)?(?:.*?OS ([\d_]+))?/i },
+  { name: 'KaiOS', regexp: /KAIOS\/([\d.]+)/i },
+  { name: 'Android', regexp: /Android[ /]?([\d.]*)/i },
+  { name: 'macOS', regexp: /Mac OS X ?([\d_.]*)/i },
+  { name: 'Chrome OS', regexp: /CrOS \w+ ([\d.]+)/i },
+  { name: 'BlackBerry', regexp: /(?:BlackBerry|BB10).*?Version\/([\d.]+)/i },
+  { name: 'Ubuntu', regexp: /Ubuntu[/ ]?([\d.]*)/i },
+  { name: 'Linux', regexp: /Linux()/i }
+];
+
+/**
+ * 渲染引擎规则
+ */
+const ENGINE_RULES: UserAgentRule[] = [
+  { name: 'EdgeHTML', regexp: /Edge\/([\d.]+)/i },
+  { name: 'Trident', regexp: /Trident\/([\d.]+)/i },
+  { name: 'Presto', regexp: /Presto\/([\d.]+)/i },
+  { name: 'Blink', regexp: /Chrome\/([\d.]+)/i },
+  { name: 'WebKit', regexp: /AppleWebKit\/([\d.]+)/i },
+  { name: 'Gecko', regexp: /rv:([\d.]+)\).+Gecko\//i }
+];
+
+/**
+ * 设备厂商规则，匹配用户代理中的设备型号
+ */
+const VENDOR_RULES: UserAgentRule[] = [
+  { name: 'Honor', regexp: /^(?:HONOR|HRY-|BKL-|PCT-|YAL-)/i },
+  { name: 'Huawei', regexp: /^(?:HUAWEI|HW-|[A-Z]{3}-(?:AL|TL|AN|LX|L|W|DL)\d{1,2})/i },
+  { name: 'Samsung', regexp: /^(?:SAMSUNG|SM-|GT-|SCH-|SGH-)/i },
+  { name: 'Xiaomi', regexp: /^(?:Xiaomi|Mi |MI |Redmi|POCO|M\d{4}[A-Z]\d+[A-Z]*|2\d{6,7}[A-Z]{1,3}$)/i },
+  { name: 'OnePlus', regexp: /^(?:OnePlus|ONEPLUS|[A-Z]{2}\d{4}$)/ },
+  { name: 'OPPO', regexp: /^(?:OPPO|CPH\d{4}|P[A-Z]{2}M\d{2}|P[A-Z]{3}\d{2})/i },
+  { name: 'Realme', regexp: /^RMX\d+/i },
+  { name: 'vivo', regexp: /^(?:vivo|V\d{4}[A-Z]{0,2})/i },
+  { name: 'Meizu', regexp: /^(?:meizu|MZ-)/i },
+  { name: 'Google', regexp: /^(?:Pixel|Nexus)/i },
+  { name: 'Motorola', regexp: /^(?:moto|XT\d{4})/i },
+  { name: 'Sony', regexp: /^(?:Xperia|SO-\d)/i },
+  { name: 'LG', regexp: /^LG/i },
+  { name: 'Lenovo', regexp: /^Lenovo/i },
+  { name: 'Nokia', regexp: /^Nokia/i },
+  { name: 'ZTE', regexp: /^ZTE/i }
+];
+
+/**
+ * 设备型号无法识别厂商时，使用厂商浏览器的标识
+ */
+const VENDOR_HINT_RULES: UserAgentRule[] = [
+  { name: 'Huawei', regexp: /HuaweiBrowser|HUAWEI/i },
+  { name: 'Samsung', regexp: /SamsungBrowser/i },
+  { name: 'Xiaomi', regexp: /MiuiBrowser|XiaoMi/i },
+  { name: 'OPPO', regexp: /HeyTapBrowser|OppoBrowser/i },
+  { name: 'vivo', regexp: /VivoBrowser/i }
+];
+
+/**
+ * 宿主 App 规则，企业微信的用户代理中同时包含微信标识，需要放在微信之前
+ */
+const CONTAINER_RULES: UserAgentRule[] = [
+  { name: 'WeCom', regexp: /wxwork\/([\d.]+)/i },
+  { name: 'WeChat', regexp: /MicroMessenger\/([\d.]+)/i },
+  { name: 'Alipay', regexp: /AlipayClient\/([\d.]+)/i },
+  { name: 'DingTalk', regexp: /DingTalk\/([\d.]+)/i },
+  { name: 'Feishu', regexp: /(?:Lark|Feishu)\/([\d.]+)/i },
+  { name: 'QQ', regexp: /\bQQ\/([\d.]+)/ },
+  { name: 'Weibo', regexp: /__weibo__([\d.]+)/i },
+  { name: 'Weibo', regexp: /Weibo()/i },
+  { name: 'Douyin', regexp: /aweme(?:_lite)?\/([\d.]+)/i },
+  { name: 'Toutiao', regexp: /NewsArticle\/([\d.]+)/i },
+  { name: 'Taobao', regexp: /AliApp\(TB\/([\d.]+)/i },
+  { name: 'Baidu', regexp: /baiduboxapp\/([\d.]+)/i }
+];
+
+/**
+ * 小程序 web-view 的标识，包括微信、支付宝、钉钉（miniProgram）、百度（swan）、字节跳动（ToutiaoMicroApp）
+ */
+const MINI_PROGRAM_REGEXP = /miniProgram|swan\/|ToutiaoMicroApp/i;
+
+/**
+ * 爬虫规则，需要带分类
+ */
+interface BotRule extends UserAgentRule {
+  category: BotCategory;
+}
+
+/**
+ * 爬虫规则，具体的爬虫需要放在通用规则之前
+ */
+const BOT_RULES: BotRule[] = [
+  // 搜索引擎
+  { name: 'Googlebot', category: 'search', regexp: /(?:Googlebot|Google-InspectionTool|Storebot-Google)(?:-\w+)?\/?([\d.]*)/i },
+  { name: 'Google AdsBot', category: 'search', regexp: /(?:AdsBot-Google|Mediapartners-Google)(?:-\w+)?\/?([\d.]*)/i },
+  { name: 'Bingbot', category: 'search', regexp: /(?:bingbot|msnbot|BingPreview)\/?([\d.]*)/i },
+  { name: 'Baiduspider', category: 'search', regexp: /Baiduspider(?:-\w+)?\/?([\d.]*)/i },
+  { name: 'Sogou Spider', category: 'search', regexp: /Sogou[\w ]*spider\/?([\d.]*)/i },
+  { name: '360Spider', category: 'search', regexp: /(?:360Spider|HaosouSpider)\/?([\d.]*)/i },
+  { name: 'YisouSpider', category: 'search', regexp: /YisouSpider\/?([\d.]*)/i },
+  { name: 'Bytespider', category: 'search', regexp: /Bytespider\/?([\d.]*)/i },
+  { name: 'PetalBot', category: 'search', regexp: /PetalBot\/?([\d.]*)/i },
+  { name: 'YandexBot', category: 'search', regexp: /Yandex(?:Bot|Images|MobileBot|Accessibility\w*)\/([\d.]+)/i },
+  { name: 'DuckDuckBot', category: 'search', regexp: /DuckDuck(?:Go-Favicons-)?Bot(?:-Https)?\/?([\d.]*)/i },
+  { name: 'Applebot', category: 'search', regexp: /Applebot\/?([\d.]*)/i },
+  { name: 'Yahoo Slurp', category: 'search', regexp: /Yahoo! Slurp()/i },
+  // 社交平台链接预览
+  { name: 'Facebook', category: 'social', regexp: /(?:facebookexternalhit|Facebot|meta-externalagent)\/?([\d.]*)/i },
+  { name: 'Twitterbot', category: 'social', regexp: /Twitterbot\/?([\d.]*)/i },
+  { name: 'LinkedInBot', category: 'social', regexp: /LinkedInBot\/?([\d.]*)/i },
+  { name: 'Slackbot', category: 'social', regexp: /Slack(?:bot|-ImgProxy)(?:-LinkExpanding)?\s?([\d.]*)/i },
+  { name: 'Discordbot', category: 'social', regexp: /Discordbot\/?([\d.]*)/i },
+  { name: 'TelegramBot', category: 'social', regexp: /TelegramBot()/i },
+  { name: 'WhatsApp', category: 'social', regexp: /^WhatsApp\/([\d.]+)/i },
+  { name: 'Pinterestbot', category: 'social', regexp: /Pinterest(?:bot)?\/([\d.]+)/i },
+  { name: 'redditbot', category: 'social', regexp: /redditbot\/?([\d.]*)/i },
+  { name: 'Skype', category: 'social', regexp: /SkypeUriPreview()/i },
+  { name: 'Embedly', category: 'social', regexp: /Embedly\/?([\d.]*)/i },
+  // 可用性监控、性能检测
+  { name: 'Lighthouse', category: 'monitoring', regexp: /Chrome-Lighthouse()/i },
+  { name: 'PageSpeed Insights', category: 'monitoring', regexp: /Google Page Speed Insights()/i },
+  { name: 'UptimeRobot', category: 'monitoring', regexp: /UptimeRobot\/?([\d.]*)/i },
+  { name: 'Pingdom', category: 'monitoring', regexp: /Pingdom[\w.]*\/?([\d.]*)/i },
+  { name: 'StatusCake', category: 'monitoring', regexp: /StatusCake()/i },
+  { name: 'Site24x7', category: 'monitoring', regexp: /Site24x7()/i },
+  { name: 'Datadog', category: 'monitoring', regexp: /Datadog(?:Synthetics)?\/?([\d.]*)/i },
+  { name: 'New Relic', category: 'monitoring', regexp: /NewRelicPinger\/?([\d.]*)/i },
+  { name: 'GTmetrix', category: 'monitoring', regexp: /GTmetrix()/i },
+  // 无头浏览器
+  { name: 'HeadlessChrome', category: 'headless', regexp: /HeadlessChrome\/([\d.]+)/i },
+  { name: 'PhantomJS', category: 'headless', regexp: /PhantomJS\/([\d.]+)/i },
+  { name: 'jsdom', category: 'headless', regexp: /jsdom\/([\d.]+)/i },
+  { name: 'Cypress', category: 'headless', regexp: /Cypress\/([\d.]+)/i },
+  // SEO 工具、AI 爬虫
+  { name: 'AhrefsBot', category: 'crawler', regexp: /AhrefsBot\/?([\d.]*)/i },
+  { name: 'SemrushBot', category: 'crawler', regexp: /SemrushBot\/?([\d.]*)/i },
+  { name: 'MJ12bot', category: 'crawler', regexp: /MJ12bot\/?v?([\d.]*)/i },
+  { name: 'GPTBot', category: 'crawler', regexp: /(?:GPTBot|ChatGPT-User|OAI-SearchBot)\/?([\d.]*)/i },
+  { name: 'ClaudeBot', category: 'crawler', regexp: /(?:ClaudeBot|Claude-Web)\/?([\d.]*)/i },
+  { name: 'CCBot', category: 'crawler', regexp: /CCBot\/?([\d.]*)/i },
+  // HTTP 请求库
+  { name: 'curl', category: 'crawler', regexp: /^curl\/([\d.]+)/i },
+  { name: 'Wget', category: 'crawler', regexp: /^Wget\/([\d.]+)/i },
+  { name: 'python-requests', category: 'crawler', regexp: /python-requests\/([\d.]+)/i },
+  { name: 'Go-http-client', category: 'crawler', regexp: /Go-http-client\/([\d.]+)/i },
+  { name: 'axios', category: 'crawler', regexp: /^axios\/([\d.]+)/i },
+  { name: 'node-fetch', category: 'crawler', regexp: /^node-fetch\/?([\d.]*)/i },
+  { name: 'okhttp', category: 'crawler', regexp: /^okhttp\/([\d.]+)/i },
+  // 通用规则，`xxxbot/1.0` 或带有 `+http://` 说明链接的用户代理
+  { name: '', category: 'crawler', regexp: /[\w-]*bot\/|crawler|crawling|spider|scraper|\(compatible;[^)]*\+?https?:\/\/()/i }
+];
+
+/**
+ * 按顺序匹配规则
+ */
+function matchRules(ua: string, rules: UserAgentRule[]): { name: string; version: string } {
+  for (const rule of rules) {
+    const match = rule.regexp.exec(ua);
+    if (match) {
+      const version = (match[1] || '').replace(/_/g, '.');
+      return { name: rule.name, version: (rule.versions && rule.versions[version]) || version };
+    }
+  }
+  return { name: '', version: '' };
+}
+
+/**
+ * 根据设备型号识别厂商，如 `SM-S9180` 对应 `Samsung`
+ */
+export function matchDeviceVendor(model: string): string {
+  return model ? matchRules(model, VENDOR_RULES).name : '';
+}
+
+/**
+ * 解析设备厂商、型号
+ */
+function parseDevice(ua: string): UserAgentDevice {
+  const apple = /\b(iPhone|iPad|iPod|Macintosh)\b/.exec(ua);
+  if (apple) {
+    return { vendor: 'Apple', model: apple[1] };
+  }
+
+  // Android 设备型号位于 `Android 10; ` 之后、`Build/`、`;` 或 `)` 之前，可能夹带语言标识、鸿蒙标识
+  const android = /Android[^;)]*;(?:\s*[a-z]{2}[-_][a-z]{2};)?(?:\s*HarmonyOS;)?\s*([^;)]+?)(?:\s+Build\/[^;)]*)?[;)]/i.exec(ua);
+  // 冻结后的用户代理中型号固定为 `K`，视为无法识别
+  const rawModel = android && android[1] !== 'K' ? android[1].trim() : '';
+  const model = rawModel.replace(/^(?:HUAWEI|SAMSUNG)[ _-]/i, '');
+
+  let vendor = matchDeviceVendor(rawModel);
+  if (!vendor && android) {
+    vendor = matchRules(ua, VENDOR_HINT_RULES).name;
+  }
+
+  return { vendor, model };
+}
+
+/**
+ * 检测页面所在的宿主 App（微信、企业微信、支付宝、钉钉、飞书、QQ、微博等）及是否在小程序 web-view 中
+ * 
+ * @param userAgent - 可选的用户代理字符串，如果不提供则使用 navigator.userAgent
+ * @returns 返回宿主 App 信息，不在宿主 App 中时 `name` 为空字符串
+ * 
+ * @example
+ * ```typescript
+ * detectContainer('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148 MicroMessenger/8.0.44(0x18002c2d) NetType/WIFI Language/zh_CN');
+ * // { name: 'WeChat', version: '8.0.44', miniProgram: false }
+ * 
+ * const { name, miniProgram } = detectContainer();
+ * if (name === 'WeChat' && !miniProgram) {
+ *   // 使用微信 JS-SDK 分享、支付
+ * }
+ * ```
+ */
+export function detectContainer(userAgent?: string): UserAgentContainer {
+  const ua = userAgent || (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+  const { name, version } = matchRules(ua, CONTAINER_RULES);
+
+  let miniProgram = MINI_PROGRAM_REGEXP.test(ua);
+  // iOS 微信小程序 web-view 的用户代理中可能没有 miniProgram 标识，未传入用户代理时通过全局变量判断
+  if (!miniProgram && !userAgent && name === 'WeChat' && typeof window !== 'undefined') {
+    miniProgram = (window as any).__wxjs_environment === 'miniprogram';
+  }
+
+  return { name: name as UserAgentContainerName | '', version, miniProgram };
+}
+
+/**
+ * 检测用户代理是否是爬虫，并识别爬虫名称和分类
+ * 
+ * @param userAgent - 可选的用户代理字符串，如果不提供则使用 navigator.userAgent，Node.js 中需传入 `User-Agent` 请求头
+ * @returns 返回爬虫检测结果
+ * 
+ * @example
+ * ```typescript
+ * detectBot('Mozilla/5.0 (compatible; Baiduspider/2.0; +http://www.baidu.com/search/spider.html)');
+ * // { isBot: true, name: 'Baiduspider', category: 'search', version: '2.0' }
+ * 
+ * detectBot('facebookexternalhit/1.1 (+http://www.facebook.com/externalhit_uatext.php)');
+ * // { isBot: true, name: 'Facebook', category: 'social', version: '1.1' }
+ * ```
+ */
+export function detectBot(userAgent?: string): BotDetectionResult {
+  const ua = userAgent || (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+
+  for (const rule of BOT_RULES) {
+    const match = rule.regexp.exec(ua);
+    if (match) {
+      return { isBot: true, name: rule.name, category: rule.category, version: match[1] || '' };
+    }
+  }
+
+  // 浏览器中 `navigator.webdriver` 为 true 时表示由自动化工具控制
+  if (!userAgent && typeof navigator !== 'undefined' && navigator.webdriver) {
+    return { isBot: true, name: 'WebDriver', category: 'headless', version: '' };
+  }
+
+  return { isBot: false, name: '', category: '', version: '' };
+}
+
+/**
+ * 是否是爬虫，可用于服务端渲染时跳过统计、返回预渲染内容
+ * 
+ * @param userAgent - 可选的用户代理字符串，如果不提供则使用 navigator.userAgent，Node.js 中需传入 `User-Agent` 请求头
+ * @returns 如果是爬虫返回 true，否则返回 false
+ * 
+ * @example
+ * ```typescript
+ * // Node.js
+ * if (isBot(req.headers['user-agent'])) {
+ *   // 不记录访问日志
+ * }
+ * ```
+ */
+export function isBot(userAgent?: string): boolean {
+  return detectBot(userAgent).isBot;
+}
+
+/**
+ * 解析用户代理字符串，获取浏览器、操作系统、渲染引擎、设备、宿主 App 和爬虫信息
+ * 
+ * @param userAgent - 可选的用户代理字符串，如果不提供则使用 navigator.userAgent
+ * @returns 返回解析结果，无法识别的字段为空字符串
+ * 
+ * @example
+ * ```typescript
+ * parseUserAgent('Mozilla/5.0 (Linux; Android 12; NOH-AN00 Build/HUAWEINOH-AN00) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/99.0.4844.88 HuaweiBrowser/13.0.5.303 Mobile Safari/537.36');
+ * // {
+ * //   browser: { name: 'Huawei Browser', version: '13.0.5.303', major: '13' },
+ * //   os: { name: 'Android', version: '12' },
+ * //   engine: { name: 'Blink', version: '99.0.4844.88' },
+ * //   device: { vendor: 'Huawei', model: 'NOH-AN00' },
+ * //   container: { name: '', version: '', miniProgram: false },
+ * //   bot: { isBot: false, name: '', category: '', version: '' },
+ * //   userAgent: '...'
+ * // }
+ * 
+ * // Node.js
+ * parseUserAgent(req.headers['user-agent']).browser.name; // 'Chrome'
+ * ```
+ */
+export function parseUserAgent(userAgent?: string): UserAgentResult {
+  const ua = userAgent || (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+
+  const browser = matchRules(ua, BROWSER_RULES);
+  const os = matchRules(ua, OS_RULES);
+  const engine = matchRules(ua, ENGINE_RULES);
+
+  return {
+    browser: { ...browser, major: browser.version.split('.')[0] },
+    os,
+    engine,
+    device: parseDevice(ua),
+    container: detectContainer(userAgent),
+    bot: detectBot(userAgent),
+    userAgent: ua
+  };
+}
@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCookie, parseCookie } from '../dist/index.esm.js';
+
+test('cookie names matching Object.prototype properties are parsed', () => {
+  const cookies = parseCookie('toString=1; constructor=2; hasOwnProperty=3; __proto__=4');
+
+  assert.equal(cookies.toString, '1');
+  assert.equal(cookies.constructor, '2');
+  assert.equal(cookies.hasOwnProperty, '3');
+  assert.equal(Object.getOwnPropertyDescriptor(cookies, '__proto__').value, '4');
+});
+
+test('getCookie only returns own cookies', () => {
+  assert.equal(getCookie('toString', 'x=1'), undefined);
+  assert.equal(getCookie('toString', 'toString=2'), '2');
+  assert.equal(getCookie('x', 'x=1'), '1');
+});
@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Decimal, addition, calc, divisionOperation } from '../dist/index.esm.js';
+
+test('Decimal.round and toFixed support negative places', () => {
+  assert.equal(new Decimal(1234).round(-1).toString(), '1230');
+  assert.equal(new Decimal(1234).toFixed(-1), '1230');
+  assert.equal(new Decimal(1250).round(-2).toString(), '1300');
+});
+
+test('math and calc helpers ignore the global Decimal config', () => {
+  const defaults = Decimal.config();
+  try {
+    Decimal.config({ precision: 2, rounding: 'floor' });
+
+    assert.equal(new Decimal(1).div(3).toString(), '0.33');
+    assert.equal(divisionOperation(1, 3), 0.3333333333333333);
+    assert.equal(calc(1).div(3).toString(), '0.33333333333333333333');
+    assert.equal(calc('2.5').round().toString(), '3');
+    assert.equal(addition(1.004, 0.001, 2), 1.01);
+  } finally {
+    Decimal.config(defaults);
+  }
+
+  assert.deepEqual(Decimal.config(), { precision: 20, rounding: 'half-up' });
+  assert.equal(new Decimal(1).div(3).toString(), '0.33333333333333333333');
+});
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExpressionError, evaluateExpression } from '../dist/index.esm.js';
+
+test('deeply nested input throws ExpressionError instead of overflowing the stack', () => {
+  const inputs = [
+    `${'('.repeat(20000)}1${')'.repeat(20000)}`,
+    `${'-'.repeat(20000)}1`,
+    `1${'+1'.repeat(100000)}`,
+    `2${'^1'.repeat(20000)}`,
+    `${'abs('.repeat(20000)}1${')'.repeat(20000)}`
+  ];
+  inputs.forEach(input => assert.throws(() => evaluateExpression(input), ExpressionError));
+});
+
+test('moderately nested expressions still evaluate', () => {
+  assert.equal(evaluateExpression(`${'('.repeat(400)}1${')'.repeat(400)}`).toString(), '1');
+  assert.equal(evaluateExpression(`1${'+1'.repeat(400)}`).toString(), '401');
+  assert.equal(evaluateExpression('-2 ^ 2 + 10 % 4').toNumber(), -2);
+});
@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { defineQuerySchema } from '../dist/index.esm.js';
+
+test('number fields only accept finite decimal literals', () => {
+  const schema = defineQuerySchema({ page: { type: 'number', default: 1 } });
+
+  ['Infinity', '-Infinity', '0x10', '1e3', ' 2', '2 ', '', 'abc', '1.2.3'].forEach(page => {
+    const { data, errors } = schema.validate({ page });
+    assert.equal(data.page, 1, page);
+    assert.equal(errors.length, 1, page);
+  });
+  [['2', 2], ['-3', -3], ['1.5', 1.5], ['.5', 0.5], ['10.', 10]].forEach(([page, expected]) => {
+    assert.deepEqual(schema.validate({ page }), { data: { page: expected }, errors: [] });
+  });
+});
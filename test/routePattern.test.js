@@ -0,0 +1,11 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRoute, matchRoute } from '../dist/index.esm.js';
+
+test('matchRoute keeps working past the pattern cache limit', () => {
+  for (let i = 0; i < 300; i++) {
+    assert.deepEqual(matchRoute(`/items${i}/:id`, `/items${i}/${i}`).params, { id: String(i) });
+  }
+  assert.equal(matchRoute('/items0/:id', '/items0/x').params.id, 'x');
+  assert.equal(buildRoute('/users/:id', { id: 1 }), '/users/1');
+});
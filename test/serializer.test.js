@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryBackend, createStorage, createTaggedSerializer, defaultSerializer } from '../dist/index.esm.js';
+
+test('round-trips rich types', () => {
+  const value = {
+    date: new Date(0),
+    map: new Map([['a', 1]]),
+    set: new Set([1, 2]),
+    big: BigInt(10),
+    regexp: /a+/gi,
+    missing: undefined,
+    nan: NaN,
+    tagged: { __nuan_type__: 'Date', __nuan_value__: 'x' }
+  };
+  assert.deepEqual(defaultSerializer.parse(defaultSerializer.stringify(value)), value);
+});
+
+test('legacy JSON with $type keys is returned unchanged', () => {
+  const backend = createMemoryBackend();
+  const legacy = [
+    { $type: 'Date', name: 'x' },
+    { $type: 'Map' },
+    { $type: 'Unknown', $value: 1 }
+  ];
+  legacy.forEach((value, index) => backend.setItem(`legacy${index}`, JSON.stringify(value)));
+
+  const storage = createStorage(backend);
+  const warn = console.warn;
+  const warnings = [];
+  console.warn = (...args) => warnings.push(args);
+  try {
+    legacy.forEach((value, index) => assert.deepEqual(storage.getItem(`legacy${index}`), value));
+  } finally {
+    console.warn = warn;
+  }
+  assert.equal(warnings.length, 0);
+});
+
+test('tags with an unexpected shape are returned as plain objects', () => {
+  const serializer = createTaggedSerializer();
+  const samples = [
+    { __nuan_type__: 'Map', __nuan_value__: 1 },
+    { __nuan_type__: 'Date', __nuan_value__: 1 },
+    { __nuan_type__: 'BigInt', __nuan_value__: '1.5' },
+    { __nuan_type__: 'Date', __nuan_value__: 'x', name: 'y' }
+  ];
+  samples.forEach(sample => assert.deepEqual(serializer.parse(JSON.stringify(sample)), sample));
+});
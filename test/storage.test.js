@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryBackend, createStorage } from '../dist/index.esm.js';
+
+test('eviction without prefix never removes other apps\' data', () => {
+  const backend = createMemoryBackend();
+  backend.setItem('other-app', '"keep"');
+  const storage = createStorage(backend, { quota: 400, eviction: 'lru' });
+
+  for (let i = 0; i < 10; i++) {
+    storage.setItem(`item${i}`, 'x'.repeat(20));
+  }
+
+  assert.equal(backend.getItem('other-app'), '"keep"');
+  assert.equal(storage.getItem('item9'), 'x'.repeat(20));
+  assert.equal(storage.getItem('item0'), undefined);
+});
+
+test('values shaped like the metadata envelope round-trip unchanged', () => {
+  const storage = createStorage(createMemoryBackend());
+  const value = { __nuan__: 1, value: 'oops', expires: 1 };
+
+  storage.setItem('z', value);
+  assert.deepEqual(storage.getItem('z'), value);
+  assert.equal(storage.getExpires('z'), undefined);
+});
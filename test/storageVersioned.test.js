@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryBackend, createStorage, createVersionedStorage } from '../dist/index.esm.js';
+
+test('clear only removes versioned values', () => {
+  const storage = createStorage(createMemoryBackend());
+  storage.setItem('other-app', 'keep');
+  const versioned = createVersionedStorage(storage, { version: 1 });
+  versioned.setItem('user', { name: 'xiaoming' });
+
+  versioned.clear();
+
+  assert.equal(storage.getItem('user'), undefined);
+  assert.equal(storage.getItem('other-app'), 'keep');
+});
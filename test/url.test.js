@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeQuery, parseQuery, removeQuery } from '../dist/index.esm.js';
+
+test('parseQuery does not merge with Object.prototype members', () => {
+  assert.deepEqual(parseQuery('?toString=1&valueOf=2'), { toString: '1', valueOf: '2' });
+  assert.deepEqual(parseQuery('?hasOwnProperty=1&hasOwnProperty=2'), { hasOwnProperty: ['1', '2'] });
+  assert.deepEqual(parseQuery('?__proto__[x]=1'), {});
+});
+
+test('parseQuery assigns array items by index', () => {
+  assert.deepEqual(parseQuery('?a[1]=x&a[0]=y'), { a: ['y', 'x'] });
+  assert.deepEqual(parseQuery('?a[5]=x&a[2]=y'), { a: ['y', 'x'] });
+  assert.deepEqual(parseQuery('?a[]=x&a[1]=y'), { a: ['x', 'y'] });
+});
+
+test('parseQuery keeps scalar values next to nested ones', () => {
+  assert.deepEqual(parseQuery('?a=1&a[b]=2'), { a: { '': '1', b: '2' } });
+  assert.deepEqual(parseQuery('?a[b]=2&a=1'), { a: { b: '2', '': '1' } });
+  assert.deepEqual(parseQuery('?a=1&a[]=2'), { a: ['1', '2'] });
+});
+
+test('removeQuery leaves other parameters untouched', () => {
+  assert.equal(removeQuery('https://x.com/?ids[]=1&ids[]=2&token=x', 'token'), 'https://x.com/?ids[]=1&ids[]=2');
+  assert.equal(removeQuery('https://x.com/?flag&q=a+b&tags=a,b&token=x', 'token'), 'https://x.com/?flag&q=a+b&tags=a,b');
+  assert.equal(removeQuery('https://x.com/?ids[]=1&ids[0]=2&token=x', 'ids'), 'https://x.com/?token=x');
+});
+
+test('mergeQuery only rewrites the merged parameters', () => {
+  assert.equal(
+    mergeQuery('https://x.com/?flag&tags=a,b&page=1&q=a+b', { page: 2, ids: [1, 2] }, { arrayFormat: 'bracket' }),
+    'https://x.com/?flag&tags=a,b&page=2&q=a+b&ids[]=1&ids[]=2'
+  );
+  assert.equal(mergeQuery('https://x.com/list?page=2&keyword=a', { page: 3, keyword: null }), 'https://x.com/list?page=3');
+  assert.equal(mergeQuery('http://test/?from=app#/detail?id=1', { tab: 'info' }), 'http://test/?from=app#/detail?id=1&tab=info');
+});
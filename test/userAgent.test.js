@@ -0,0 +1,44 @@
+/**
+ * 用户代理解析回归测试，用例见 `fixtures/user-agents.json`
+ * 每条用例只校验列出的字段，新增设备或修改规则后请补充对应的用例
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { deviceDetection, parseUserAgent } from '../dist/index.esm.js';
+
+const fixtures = JSON.parse(readFileSync(new URL('./fixtures/user-agents.json', import.meta.url), 'utf8'));
+
+/**
+ * 只保留 expected 中列出的字段，便于对部分字段断言
+ */
+function pick(actual, expected) {
+  return Object.fromEntries(Object.keys(expected).map(key => [key, actual[key]]));
+}
+
+fixtures.forEach(({ ua, browser, os, engine, device, container, bot }) => {
+  test(ua, () => {
+    const result = parseUserAgent(ua);
+    const { type, ...rest } = device;
+
+    assert.deepEqual(pick(result.browser, browser), browser, 'browser');
+    assert.deepEqual(pick(result.os, os), os, 'os');
+    assert.deepEqual(pick(result.engine, engine), engine, 'engine');
+    assert.deepEqual(pick(result.device, rest), rest, 'device');
+    assert.equal(deviceDetection(ua).type, type, 'device type');
+
+    if (container) {
+      assert.deepEqual(pick(result.container, container), container, 'container');
+    } else {
+      assert.equal(result.container.name, '', 'container');
+    }
+
+    if (bot) {
+      assert.equal(result.bot.isBot, true, 'bot');
+      assert.deepEqual(pick(result.bot, bot), bot, 'bot');
+    } else {
+      assert.equal(result.bot.isBot, false, 'bot');
+    }
+  });
+});